@@ -0,0 +1,184 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { IntegrationRegistry } from './registry.js';
+import { createServer } from './server.js';
+
+export interface HttpServerOptions {
+  port: number;
+  host?: string;
+  path?: string;
+  authToken: string;
+  /** Close sessions without requests for this long (default: 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  /** Requests still being answered, including open notification streams */
+  activeRequests: number;
+}
+
+const SESSION_HEADER = 'mcp-session-id';
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export async function startHttpServer(
+  registry: IntegrationRegistry,
+  options: HttpServerOptions,
+): Promise<void> {
+  const endpoint = options.path || '/mcp';
+  const sessions = new Map<string, Session>();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+
+      // Unauthenticated liveness probe for Cloud Run and container runtimes
+      if (url.pathname === '/healthz') {
+        sendJson(res, 200, { status: 'ok' });
+        return;
+      }
+
+      if (url.pathname !== endpoint) {
+        sendJson(res, 404, { error: 'Not found' });
+        return;
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJson(res, 401, { error: 'Unauthorized' });
+        return;
+      }
+
+      const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+      let body: unknown;
+      if (req.method === 'POST') {
+        try {
+          body = await readJsonBody(req);
+        } catch (error: any) {
+          sendJson(res, 400, { error: error.message });
+          return;
+        }
+      }
+
+      if (sessionId) {
+        const session = sessions.get(sessionId);
+        if (!session) {
+          sendJson(res, 404, { error: `Unknown session: ${sessionId}` });
+          return;
+        }
+
+        session.activeRequests++;
+        session.lastActivity = Date.now();
+        res.once('close', () => {
+          session.activeRequests--;
+          session.lastActivity = Date.now();
+        });
+
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJson(res, 400, { error: 'Missing session ID' });
+        return;
+      }
+
+      // New session: every client gets its own transport and MCP server, while
+      // integrations and their clients are shared through the registry
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport, lastActivity: Date.now(), activeRequests: 0 });
+        },
+        onsessionclosed: (id) => {
+          sessions.delete(id);
+        },
+      });
+
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+
+      await createServer(registry, { streamNotifications: true }).connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error: any) {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: error.message });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  console.error(`HTTP transport listening on ${options.host || '0.0.0.0'}:${options.port}${endpoint}`);
+
+  // Clients that disconnect without a DELETE would otherwise keep their
+  // transport and MCP server alive for the life of the process
+  const idleTimeout = options.sessionIdleTimeoutMs || DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const sweeper = setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.activeRequests === 0 && now - session.lastActivity >= idleTimeout) {
+        sessions.delete(id);
+        session.transport.close().catch(() => undefined);
+      }
+    }
+  }, Math.min(idleTimeout, MAX_SESSION_SWEEP_INTERVAL_MS));
+  sweeper.unref();
+
+  const shutdown = async () => {
+    clearInterval(sweeper);
+    for (const { transport } of sessions.values()) {
+      await transport.close().catch(() => undefined);
+    }
+    httpServer.close(() => process.exit(0));
+  };
+
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error('Request body is not valid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
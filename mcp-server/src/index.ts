@@ -0,0 +1,108 @@
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SecretsManager } from './secrets.js';
+import { IntegrationRegistry } from './registry.js';
+import { createServer, SERVER_NAME } from './server.js';
+import { startHttpServer } from './http.js';
+import { GitHubIntegration } from './integrations/github.js';
+import { SupabaseIntegration } from './integrations/supabase.js';
+import { GCloudIntegration } from './integrations/gcloud.js';
+import { FirestoreIntegration } from './integrations/firestore.js';
+import { N8nIntegration } from './integrations/n8n.js';
+import { N8nDriftIntegration } from './integrations/n8n-drift.js';
+import { WorkspaceIntegration } from './integrations/workspace.js';
+
+function parseList(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function parseBoolean(value: string | undefined, defaultValue: boolean): boolean {
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+  return !['0', 'false', 'no', 'off'].includes(value.toLowerCase());
+}
+
+function getTransportMode(): 'stdio' | 'http' {
+  if (process.argv.includes('--http')) {
+    return 'http';
+  }
+  return process.env.PULSE_MCP_TRANSPORT === 'http' ? 'http' : 'stdio';
+}
+
+async function main(): Promise<void> {
+  const secretsManager = new SecretsManager();
+  await secretsManager.loadSecrets();
+
+  const registry = new IntegrationRegistry({
+    disabled: parseList(process.env.PULSE_MCP_DISABLED_INTEGRATIONS),
+  });
+
+  const github = new GitHubIntegration(secretsManager);
+  const n8n = new N8nIntegration(secretsManager);
+  const gcloud = new GCloudIntegration(secretsManager, {
+    commandPolicy: {
+      allowedGroups: process.env.PULSE_GCLOUD_ALLOWED_GROUPS
+        ? parseList(process.env.PULSE_GCLOUD_ALLOWED_GROUPS)
+        : undefined,
+      readOnly: parseBoolean(process.env.PULSE_GCLOUD_READ_ONLY, true),
+    },
+  });
+
+  registry
+    .register(github)
+    .register(new SupabaseIntegration(secretsManager, {
+      writeGuard: {
+        maxAffectedRows: Number(process.env.PULSE_SUPABASE_MAX_AFFECTED_ROWS) || undefined,
+      },
+      rolePolicy: {
+        allowServiceRole: parseBoolean(process.env.PULSE_SUPABASE_ALLOW_SERVICE_ROLE, false),
+        allowImpersonation: parseBoolean(process.env.PULSE_SUPABASE_ALLOW_IMPERSONATION, false),
+      },
+      gcloud,
+      github,
+      migrations: {
+        table: process.env.PULSE_SUPABASE_MIGRATIONS_TABLE,
+        rpc: process.env.PULSE_SUPABASE_MIGRATIONS_RPC,
+      },
+    }))
+    .register(gcloud)
+    .register(new FirestoreIntegration(secretsManager))
+    .register(n8n)
+    .register(new N8nDriftIntegration(github, n8n))
+    .register(new WorkspaceIntegration(github, {
+      owner: process.env.PULSE_WORKSPACE_OWNER,
+      repos: process.env.PULSE_WORKSPACE_REPOS
+        ? parseList(process.env.PULSE_WORKSPACE_REPOS)
+        : undefined,
+    }));
+
+  await registry.initialize();
+
+  if (getTransportMode() === 'http') {
+    const authToken = process.env.PULSE_MCP_AUTH_TOKEN;
+    if (!authToken) {
+      throw new Error('PULSE_MCP_AUTH_TOKEN must be set to run the HTTP transport');
+    }
+
+    await startHttpServer(registry, {
+      port: Number(process.env.PORT) || 8080,
+      host: process.env.HOST,
+      authToken,
+      sessionIdleTimeoutMs: Number(process.env.PULSE_MCP_SESSION_IDLE_MINUTES) * 60 * 1000 || undefined,
+    });
+    return;
+  }
+
+  const server = createServer(registry);
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error(`${SERVER_NAME} running on stdio`);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,384 @@
+import {
+  Firestore,
+  DocumentReference,
+  DocumentSnapshot,
+  GeoPoint,
+  Query,
+  Timestamp,
+  WhereFilterOp,
+} from '@google-cloud/firestore';
+import { SecretsManager } from '../secrets.js';
+import { Integration, ToolDefinition } from './types.js';
+
+// Firestore rejects batches larger than this
+const MAX_BATCH_OPERATIONS = 500;
+
+export interface FirestoreGetDocumentArgs {
+  path: string;
+}
+
+export interface FirestoreListCollectionsArgs {
+  documentPath?: string;
+}
+
+export interface FirestoreQueryArgs {
+  collection: string;
+  collectionGroup?: boolean;
+  where?: { field: string; operator: WhereFilterOp; value: any }[];
+  orderBy?: { field: string; direction?: 'asc' | 'desc' }[];
+  limit?: number;
+  startAfter?: string;
+  select?: string[];
+}
+
+export interface FirestoreWriteDocumentArgs {
+  path: string;
+  data: Record<string, any>;
+  merge?: boolean;
+}
+
+export interface FirestoreBatchOperation {
+  type: 'set' | 'update' | 'delete';
+  path: string;
+  data?: Record<string, any>;
+  merge?: boolean;
+}
+
+export interface FirestoreBatchWriteArgs {
+  operations: FirestoreBatchOperation[];
+}
+
+export class FirestoreIntegration implements Integration {
+  readonly name = 'firestore';
+  private firestore?: Firestore;
+  private secretsManager: SecretsManager;
+
+  constructor(secretsManager: SecretsManager) {
+    this.secretsManager = secretsManager;
+  }
+
+  async initialize(): Promise<boolean> {
+    const config = this.secretsManager.getGCloudConfig();
+    if (!config?.projectId) {
+      return false;
+    }
+
+    try {
+      this.firestore = new Firestore({
+        projectId: config.projectId,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Failed to initialize Firestore client:', error);
+      return false;
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!this.firestore;
+  }
+
+  async getDocument(args: FirestoreGetDocumentArgs): Promise<any> {
+    if (!this.firestore) {
+      throw new Error('Firestore client not initialized');
+    }
+
+    const snapshot = await this.firestore.doc(args.path).get();
+    if (!snapshot.exists) {
+      throw new Error(`Document not found: ${args.path}`);
+    }
+
+    return this.formatDocument(snapshot);
+  }
+
+  async listCollections(args: FirestoreListCollectionsArgs): Promise<any> {
+    if (!this.firestore) {
+      throw new Error('Firestore client not initialized');
+    }
+
+    // Without a document path, list the root collections of the database
+    const collections = args.documentPath
+      ? await this.firestore.doc(args.documentPath).listCollections()
+      : await this.firestore.listCollections();
+
+    return collections.map(collection => ({
+      id: collection.id,
+      path: collection.path,
+    }));
+  }
+
+  async query(args: FirestoreQueryArgs): Promise<any> {
+    if (!this.firestore) {
+      throw new Error('Firestore client not initialized');
+    }
+
+    let query: Query = args.collectionGroup
+      ? this.firestore.collectionGroup(args.collection)
+      : this.firestore.collection(args.collection);
+
+    for (const condition of args.where || []) {
+      query = query.where(condition.field, condition.operator, condition.value);
+    }
+
+    for (const order of args.orderBy || []) {
+      query = query.orderBy(order.field, order.direction || 'asc');
+    }
+
+    if (args.select?.length) {
+      query = query.select(...args.select);
+    }
+
+    // Cursors are document paths so they work for collection group queries too
+    if (args.startAfter) {
+      const cursor = await this.firestore.doc(args.startAfter).get();
+      if (!cursor.exists) {
+        throw new Error(`Cursor document not found: ${args.startAfter}`);
+      }
+      query = query.startAfter(cursor);
+    }
+
+    const limit = args.limit || 50;
+    const snapshot = await query.limit(limit).get();
+    const documents = snapshot.docs.map(doc => this.formatDocument(doc));
+
+    return {
+      documents,
+      nextCursor: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].ref.path : null,
+    };
+  }
+
+  async writeDocument(args: FirestoreWriteDocumentArgs): Promise<any> {
+    if (!this.firestore) {
+      throw new Error('Firestore client not initialized');
+    }
+
+    const result = await this.firestore.doc(args.path).set(args.data, { merge: args.merge ?? false });
+
+    return {
+      path: args.path,
+      updateTime: result.writeTime.toDate().toISOString(),
+    };
+  }
+
+  async batchWrite(args: FirestoreBatchWriteArgs): Promise<any> {
+    if (!this.firestore) {
+      throw new Error('Firestore client not initialized');
+    }
+
+    if (!args.operations?.length) {
+      throw new Error('At least one operation is required');
+    }
+
+    if (args.operations.length > MAX_BATCH_OPERATIONS) {
+      throw new Error(`Batch exceeds the Firestore limit of ${MAX_BATCH_OPERATIONS} operations`);
+    }
+
+    const batch = this.firestore.batch();
+
+    for (const operation of args.operations) {
+      const ref = this.firestore.doc(operation.path);
+
+      switch (operation.type) {
+        case 'set':
+          batch.set(ref, operation.data || {}, { merge: operation.merge ?? false });
+          break;
+        case 'update':
+          if (!operation.data) {
+            throw new Error(`Update operation for ${operation.path} requires data`);
+          }
+          batch.update(ref, operation.data);
+          break;
+        case 'delete':
+          batch.delete(ref);
+          break;
+        default:
+          throw new Error(`Unsupported batch operation: ${(operation as any).type}`);
+      }
+    }
+
+    const results = await batch.commit();
+
+    return {
+      committed: results.length,
+      updateTime: results[0]?.writeTime.toDate().toISOString(),
+    };
+  }
+
+  private formatDocument(snapshot: DocumentSnapshot): any {
+    return {
+      id: snapshot.id,
+      path: snapshot.ref.path,
+      data: this.serializeValue(snapshot.data()),
+      createTime: snapshot.createTime?.toDate().toISOString(),
+      updateTime: snapshot.updateTime?.toDate().toISOString(),
+    };
+  }
+
+  // Convert Firestore-specific types into plain JSON
+  private serializeValue(value: any): any {
+    if (value instanceof Timestamp) {
+      return value.toDate().toISOString();
+    }
+    if (value instanceof GeoPoint) {
+      return { latitude: value.latitude, longitude: value.longitude };
+    }
+    if (value instanceof DocumentReference) {
+      return { ref: value.path };
+    }
+    if (Buffer.isBuffer(value)) {
+      return value.toString('base64');
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.serializeValue(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.serializeValue(item)]),
+      );
+    }
+    return value;
+  }
+
+  getTools(): ToolDefinition[] {
+    return [
+      {
+        name: 'firestore_get_document',
+        description: 'Get a document from Firestore by path',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Document path (e.g., "documents/abc123")',
+            },
+          },
+          required: ['path'],
+        },
+        handler: (args) => this.getDocument(args),
+      },
+      {
+        name: 'firestore_list_collections',
+        description: 'List root collections or the subcollections of a document',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            documentPath: {
+              type: 'string',
+              description: 'Document path whose subcollections to list (default: root collections)',
+            },
+          },
+        },
+        handler: (args) => this.listCollections(args),
+      },
+      {
+        name: 'firestore_query',
+        description: 'Run a structured query against a Firestore collection',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            collection: {
+              type: 'string',
+              description: 'Collection path, or collection ID when collectionGroup is true',
+            },
+            collectionGroup: {
+              type: 'boolean',
+              description: 'Query every collection with this ID across the database',
+            },
+            where: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string' },
+                  operator: {
+                    type: 'string',
+                    enum: ['<', '<=', '==', '!=', '>=', '>', 'array-contains', 'in', 'not-in', 'array-contains-any'],
+                  },
+                  value: {},
+                },
+                required: ['field', 'operator', 'value'],
+              },
+              description: 'Filter conditions',
+            },
+            orderBy: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string' },
+                  direction: { type: 'string', enum: ['asc', 'desc'] },
+                },
+                required: ['field'],
+              },
+              description: 'Sort order',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of documents to return (default: 50)',
+            },
+            startAfter: {
+              type: 'string',
+              description: 'Document path to start after (use nextCursor from a previous call)',
+            },
+            select: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Fields to return (default: all)',
+            },
+          },
+          required: ['collection'],
+        },
+        handler: (args) => this.query(args),
+      },
+      {
+        name: 'firestore_write_document',
+        description: 'Create or overwrite a Firestore document',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Document path',
+            },
+            data: {
+              type: 'object',
+              description: 'Document fields',
+            },
+            merge: {
+              type: 'boolean',
+              description: 'Merge into the existing document instead of replacing it',
+            },
+          },
+          required: ['path', 'data'],
+        },
+        handler: (args) => this.writeDocument(args),
+      },
+      {
+        name: 'firestore_batch_write',
+        description: 'Atomically apply a batch of set, update and delete operations',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            operations: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', enum: ['set', 'update', 'delete'] },
+                  path: { type: 'string' },
+                  data: { type: 'object' },
+                  merge: { type: 'boolean' },
+                },
+                required: ['type', 'path'],
+              },
+              description: `Operations to apply (max ${MAX_BATCH_OPERATIONS})`,
+            },
+          },
+          required: ['operations'],
+        },
+        handler: (args) => this.batchWrite(args),
+      },
+    ];
+  }
+}
@@ -0,0 +1,199 @@
+import { spawn } from 'child_process';
+
+export const DEFAULT_ALLOWED_GROUPS = [
+  'config',
+  'projects',
+  'run',
+  'logging',
+  'scheduler',
+  'storage',
+  'firestore',
+  'builds',
+  'artifacts',
+  'functions',
+  'pubsub',
+  'secrets',
+  'iam',
+];
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const MAX_TIMEOUT_SECONDS = 300;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+// Any positional matching one of these is rejected in read-only mode, even a
+// resource name; secret access counts as mutating since it exposes credentials
+const MUTATING_VERB = /^(create|delete|update|deploy|set|unset|add|remove|patch|replace|execute|run|import|export|enable|disable|pause|resume|cancel|start|stop|reset|resize|move|cp|mv|rm|rsync|apply|attach|detach|rollback|restore|undelete|destroy|revoke|activate|login|submit|upload|write|purge|clear|access|sign-url|signurl|publish|ack|seek|call)(-.*)?$/;
+
+// Command paths rejected in read-only mode whatever their verbs look like
+const READ_ONLY_DENIED_COMMANDS = [['secrets', 'versions', 'access']];
+
+// Flags that would let a caller read local files or act as another identity
+const BLOCKED_FLAGS = [
+  '--flags-file',
+  '--impersonate-service-account',
+  '--access-token-file',
+  '--credential-file-override',
+  '--account',
+  '--configuration',
+];
+
+export interface GCloudCommandPolicy {
+  allowedGroups?: string[];
+  readOnly?: boolean;
+}
+
+export interface GCloudCommandOptions {
+  timeoutSeconds?: number;
+  maxOutputBytes?: number;
+}
+
+export interface GCloudCommandResult {
+  command: string[];
+  exitCode: number | null;
+  stdout: any;
+  stderr: string;
+  truncated: boolean;
+  timedOut: boolean;
+}
+
+/**
+ * Check a gcloud argv against the policy and return it with `--format=json`
+ * added when the caller did not choose a format.
+ */
+export function buildGCloudArgv(argv: string[], policy: GCloudCommandPolicy): string[] {
+  // Without gcloud's command tree, the value of a "--flag value" pair cannot be
+  // told apart from a positional, so the command and its arguments must come
+  // first and flags must carry their values as "--flag=value"
+  const firstFlag = argv.findIndex(arg => arg.startsWith('-'));
+  const positional = firstFlag === -1 ? argv : argv.slice(0, firstFlag);
+  const stray = firstFlag === -1 ? undefined : argv.slice(firstFlag).find(arg => !arg.startsWith('-'));
+  if (stray !== undefined) {
+    throw new Error(`gcloud arguments must come before flags, and flag values must be written as --flag=value (got "${stray}")`);
+  }
+
+  if (positional.length === 0) {
+    throw new Error('gcloud command must start with a command group (e.g., "run services list")');
+  }
+
+  // Release tracks sit in front of the command group
+  const groupIndex = ['alpha', 'beta'].includes(positional[0]) ? 1 : 0;
+  const group = positional[groupIndex];
+  const allowedGroups = policy.allowedGroups || DEFAULT_ALLOWED_GROUPS;
+  if (!group || !allowedGroups.includes(group)) {
+    throw new Error(`gcloud command group "${group}" is not allowed (allowed: ${allowedGroups.join(', ')})`);
+  }
+
+  for (const arg of argv) {
+    const flag = arg.split('=')[0];
+    if (BLOCKED_FLAGS.includes(flag)) {
+      throw new Error(`gcloud flag ${flag} is not allowed`);
+    }
+  }
+
+  if (policy.readOnly ?? true) {
+    const command = positional.slice(groupIndex);
+    for (const denied of READ_ONLY_DENIED_COMMANDS) {
+      if (denied.every((token, index) => command[index] === token)) {
+        throw new Error(`gcloud is in read-only mode; "${denied.join(' ')}" is not allowed`);
+      }
+    }
+
+    for (const token of command.slice(1)) {
+      if (MUTATING_VERB.test(token)) {
+        throw new Error(`gcloud is in read-only mode; "${token}" commands are not allowed`);
+      }
+    }
+  }
+
+  const hasFormat = argv.some(arg => arg === '--format' || arg.startsWith('--format='));
+  return hasFormat ? argv : [...argv, '--format=json'];
+}
+
+export function runGCloudCommand(
+  argv: string[],
+  options: GCloudCommandOptions = {},
+): Promise<GCloudCommandResult> {
+  const timeoutSeconds = Math.min(options.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS, MAX_TIMEOUT_SECONDS);
+  const maxOutputBytes = options.maxOutputBytes || MAX_OUTPUT_BYTES;
+
+  return new Promise((resolve, reject) => {
+    // No shell: every argument reaches gcloud verbatim
+    const child = spawn('gcloud', argv, {
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: { ...process.env, CLOUDSDK_CORE_DISABLE_PROMPTS: '1' },
+    });
+
+    const stdout = new OutputBuffer(maxOutputBytes);
+    const stderr = new OutputBuffer(maxOutputBytes);
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutSeconds * 1000);
+
+    child.stdout.on('data', chunk => stdout.append(chunk));
+    child.stderr.on('data', chunk => stderr.append(chunk));
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(new Error(`gcloud command failed to start: ${error.message}`));
+    });
+
+    child.on('close', (exitCode) => {
+      clearTimeout(timer);
+      const output = stdout.toString();
+
+      resolve({
+        command: ['gcloud', ...argv],
+        exitCode,
+        stdout: stdout.truncated ? output : parseJsonOutput(output),
+        stderr: stderr.toString().trim(),
+        truncated: stdout.truncated || stderr.truncated,
+        timedOut,
+      });
+    });
+  });
+}
+
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  truncated = false;
+
+  constructor(private limit: number) {}
+
+  append(chunk: Buffer): void {
+    const remaining = this.limit - this.size;
+    if (remaining <= 0) {
+      this.truncated = true;
+      return;
+    }
+
+    if (chunk.length > remaining) {
+      this.chunks.push(chunk.subarray(0, remaining));
+      this.size = this.limit;
+      this.truncated = true;
+      return;
+    }
+
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf-8');
+  }
+}
+
+function parseJsonOutput(output: string): any {
+  const trimmed = output.trim();
+  if (!trimmed) {
+    return null;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return trimmed;
+  }
+}
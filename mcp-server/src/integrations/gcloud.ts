@@ -1,7 +1,17 @@
 import { Storage } from '@google-cloud/storage';
 import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+import { ServicesClient, RevisionsClient } from '@google-cloud/run';
+import { Logging, Entry } from '@google-cloud/logging';
+import { CloudSchedulerClient } from '@google-cloud/scheduler';
+import { Writable } from 'stream';
 import { SecretsManager } from '../secrets.js';
-import { execSync } from 'child_process';
+import { Integration, ToolDefinition } from './types.js';
+import {
+  buildGCloudArgv,
+  runGCloudCommand,
+  GCloudCommandPolicy,
+  GCloudCommandResult,
+} from './gcloud-command.js';
 
 export interface GCloudStorageListArgs {
   bucket: string;
@@ -27,19 +37,95 @@ export interface GCloudSecretArgs {
   version?: string;
 }
 
+export interface GCloudRunListServicesArgs {
+  region?: string;
+}
+
+export interface GCloudRunServiceArgs {
+  service: string;
+  region: string;
+}
+
+export interface GCloudRunListRevisionsArgs extends GCloudRunServiceArgs {
+  limit?: number;
+}
+
+export interface GCloudRunTrafficTarget {
+  revision?: string;
+  latest?: boolean;
+  percent: number;
+  tag?: string;
+}
+
+export interface GCloudRunUpdateTrafficArgs extends GCloudRunServiceArgs {
+  traffic: GCloudRunTrafficTarget[];
+  confirm?: boolean;
+}
+
+export interface GCloudRunRollbackArgs extends GCloudRunServiceArgs {
+  revision?: string;
+  confirm?: boolean;
+}
+
+export interface GCloudLoggingFilterArgs {
+  filter?: string;
+  service?: string;
+  severity?: string;
+  since?: string;
+  until?: string;
+}
+
+export interface GCloudLoggingQueryArgs extends GCloudLoggingFilterArgs {
+  pageSize?: number;
+  pageToken?: string;
+  order?: 'asc' | 'desc';
+}
+
+export interface GCloudLoggingTailArgs extends GCloudLoggingFilterArgs {
+  cursor?: string;
+  maxEntries?: number;
+  waitSeconds?: number;
+}
+
+export interface GCloudSchedulerListArgs {
+  region: string;
+}
+
+export interface GCloudSchedulerJobArgs {
+  job: string;
+  region: string;
+}
+
 export interface GCloudCommandArgs {
   command: string;
   args?: string[];
+  timeoutSeconds?: number;
 }
 
-export class GCloudIntegration {
+export interface GCloudIntegrationOptions {
+  commandPolicy?: GCloudCommandPolicy;
+}
+
+// Cloud Logging returns at most 1000 entries per page
+const MAX_LOG_PAGE_SIZE = 1000;
+const MAX_TAIL_WAIT_SECONDS = 60;
+const TAIL_POLL_INTERVAL_MS = 5000;
+
+export class GCloudIntegration implements Integration {
+  readonly name = 'gcloud';
   private storage?: Storage;
   private secretClient?: SecretManagerServiceClient;
+  private runServicesClient?: ServicesClient;
+  private runRevisionsClient?: RevisionsClient;
+  private logging?: Logging;
+  private schedulerClient?: CloudSchedulerClient;
   private secretsManager: SecretsManager;
   private projectId?: string;
+  private commandPolicy: GCloudCommandPolicy;
 
-  constructor(secretsManager: SecretsManager) {
+  constructor(secretsManager: SecretsManager, options: GCloudIntegrationOptions = {}) {
     this.secretsManager = secretsManager;
+    this.commandPolicy = options.commandPolicy || {};
   }
 
   async initialize(): Promise<boolean> {
@@ -59,6 +145,18 @@ export class GCloudIntegration {
       // Initialize Secret Manager client
       this.secretClient = new SecretManagerServiceClient();
 
+      // Initialize Cloud Run clients
+      this.runServicesClient = new ServicesClient();
+      this.runRevisionsClient = new RevisionsClient();
+
+      // Initialize Cloud Logging client
+      this.logging = new Logging({
+        projectId: this.projectId,
+      });
+
+      // Initialize Cloud Scheduler client
+      this.schedulerClient = new CloudSchedulerClient();
+
       return true;
     } catch (error) {
       console.error('Failed to initialize Google Cloud clients:', error);
@@ -116,6 +214,18 @@ export class GCloudIntegration {
     });
   }
 
+  /** Open a stream that uploads to a Cloud Storage object as it is written. */
+  createWriteStream(args: Omit<GCloudStorageWriteArgs, 'content'>): Writable {
+    if (!this.storage) {
+      throw new Error('Google Cloud Storage client not initialized');
+    }
+
+    return this.storage.bucket(args.bucket).file(args.file).createWriteStream({
+      contentType: args.contentType || 'text/plain',
+      resumable: true,
+    });
+  }
+
   async getSecret(args: GCloudSecretArgs): Promise<string> {
     if (!this.secretClient || !this.projectId) {
       throw new Error('Google Cloud Secret Manager client not initialized');
@@ -134,17 +244,342 @@ export class GCloudIntegration {
     return secretValue;
   }
 
-  async executeGCloudCommand(args: GCloudCommandArgs): Promise<string> {
-    try {
-      const fullCommand = `gcloud ${args.command} ${args.args?.join(' ') || ''}`;
-      const output = execSync(fullCommand, { encoding: 'utf8' });
-      return output.trim();
-    } catch (error: any) {
-      throw new Error(`gcloud command failed: ${error.message}`);
+  async listRunServices(args: GCloudRunListServicesArgs): Promise<any> {
+    if (!this.runServicesClient || !this.projectId) {
+      throw new Error('Cloud Run client not initialized');
     }
+
+    // "-" lists services across every region
+    const [services] = await this.runServicesClient.listServices({
+      parent: `projects/${this.projectId}/locations/${args.region || '-'}`,
+    });
+
+    return services.map(service => ({
+      name: shortName(service.name),
+      region: service.name?.split('/')[3],
+      uri: service.uri,
+      latestReadyRevision: shortName(service.latestReadyRevision),
+      latestCreatedRevision: shortName(service.latestCreatedRevision),
+      traffic: this.formatTrafficStatuses(service.trafficStatuses, service.latestReadyRevision),
+      updated: toIsoString(service.updateTime),
+    }));
+  }
+
+  async listRunRevisions(args: GCloudRunListRevisionsArgs): Promise<any> {
+    if (!this.runRevisionsClient) {
+      throw new Error('Cloud Run client not initialized');
+    }
+
+    const [revisions] = await this.runRevisionsClient.listRevisions({
+      parent: this.runServiceName(args),
+      pageSize: args.limit || 20,
+    }, { autoPaginate: false });
+
+    return revisions.map(revision => ({
+      name: shortName(revision.name),
+      created: toIsoString(revision.createTime),
+      serviceAccount: revision.serviceAccount,
+      ready: revision.conditions?.some(c => c.type === 'Ready' && c.state === 'CONDITION_SUCCEEDED') ?? false,
+      containers: revision.containers?.map(container => ({
+        name: container.name,
+        image: container.image,
+        digest: container.image?.includes('@') ? container.image.split('@')[1] : undefined,
+        // Only names are returned; values may contain credentials
+        env: container.env?.map(env => env.name),
+      })),
+    }));
+  }
+
+  async getRunTraffic(args: GCloudRunServiceArgs): Promise<any> {
+    if (!this.runServicesClient) {
+      throw new Error('Cloud Run client not initialized');
+    }
+
+    const [service] = await this.runServicesClient.getService({ name: this.runServiceName(args) });
+
+    return {
+      service: args.service,
+      latestReadyRevision: shortName(service.latestReadyRevision),
+      traffic: this.formatTrafficStatuses(service.trafficStatuses, service.latestReadyRevision),
+    };
+  }
+
+  async updateRunTraffic(args: GCloudRunUpdateTrafficArgs): Promise<any> {
+    if (!this.runServicesClient) {
+      throw new Error('Cloud Run client not initialized');
+    }
+
+    const total = args.traffic.reduce((sum, target) => sum + target.percent, 0);
+    if (total !== 100) {
+      throw new Error(`Traffic percentages must add up to 100 (got ${total})`);
+    }
+
+    for (const target of args.traffic) {
+      if (!target.latest && !target.revision) {
+        throw new Error('Each traffic target needs either a revision or latest: true');
+      }
+    }
+
+    const current = await this.getRunTraffic(args);
+
+    // The traffic list is replaced as a whole, so tags the new split does not
+    // mention are carried over as 0% targets to keep their URLs working
+    const proposedTags = new Set(args.traffic.map(target => target.tag).filter(Boolean));
+    const keptTags: GCloudRunTrafficTarget[] = current.traffic
+      .filter((target: any) => target.tag && !proposedTags.has(target.tag))
+      .map((target: any) => ({
+        revision: target.latest ? undefined : target.revision,
+        latest: target.latest || undefined,
+        percent: 0,
+        tag: target.tag,
+      }));
+    const traffic = [...args.traffic, ...keptTags];
+
+    // Without confirmation, only show what would change
+    if (!args.confirm) {
+      return {
+        dryRun: true,
+        service: args.service,
+        current: current.traffic,
+        proposed: traffic,
+        keptTags: keptTags.map(target => target.tag),
+        message: 'Re-run with confirm: true to apply this traffic split',
+      };
+    }
+
+    const [operation] = await this.runServicesClient.updateService({
+      service: {
+        name: this.runServiceName(args),
+        traffic: traffic.map(target => ({
+          type: target.latest ? 'TRAFFIC_TARGET_ALLOCATION_TYPE_LATEST' : 'TRAFFIC_TARGET_ALLOCATION_TYPE_REVISION',
+          revision: target.latest ? undefined : target.revision,
+          percent: target.percent,
+          tag: target.tag,
+        })),
+      },
+      updateMask: { paths: ['traffic'] },
+    });
+    const [service] = await operation.promise();
+
+    return {
+      service: args.service,
+      previous: current.traffic,
+      traffic: this.formatTrafficStatuses(service.trafficStatuses, service.latestReadyRevision),
+    };
   }
 
-  getTools() {
+  async rollbackRunService(args: GCloudRunRollbackArgs): Promise<any> {
+    let revision = args.revision;
+
+    if (!revision) {
+      // Roll back to the revision created just before the one serving most traffic
+      const current = await this.getRunTraffic(args);
+      const serving = [...current.traffic].sort((a: any, b: any) => b.percent - a.percent)[0]?.revision;
+      const revisions = (await this.listRunRevisions({ ...args, limit: 50 }))
+        .sort((a: any, b: any) => (b.created || '').localeCompare(a.created || ''));
+      const index = revisions.findIndex((r: any) => r.name === serving);
+      const previous = revisions.slice(index + 1).find((r: any) => r.ready);
+
+      if (index === -1 || !previous) {
+        throw new Error(`No earlier ready revision found for ${args.service}`);
+      }
+      revision = previous.name as string;
+    }
+
+    return this.updateRunTraffic({
+      service: args.service,
+      region: args.region,
+      traffic: [{ revision, percent: 100 }],
+      confirm: args.confirm,
+    });
+  }
+
+  private runServiceName(args: GCloudRunServiceArgs): string {
+    if (!this.projectId) {
+      throw new Error('Cloud Run client not initialized');
+    }
+    return `projects/${this.projectId}/locations/${args.region}/services/${args.service}`;
+  }
+
+  private formatTrafficStatuses(statuses?: any[] | null, latestReadyRevision?: string | null): any[] {
+    return (statuses || []).map(status => {
+      const latest = status.type === 'TRAFFIC_TARGET_ALLOCATION_TYPE_LATEST';
+      return {
+        // Targets that follow the latest revision do not name it explicitly
+        revision: status.revision || (latest ? shortName(latestReadyRevision) : undefined),
+        latest,
+        percent: status.percent || 0,
+        tag: status.tag || undefined,
+        uri: status.uri || undefined,
+      };
+    });
+  }
+
+  async queryLogs(args: GCloudLoggingQueryArgs): Promise<any> {
+    if (!this.logging) {
+      throw new Error('Cloud Logging client not initialized');
+    }
+
+    const [entries, nextQuery] = await this.logging.getEntries({
+      filter: this.buildLogFilter(args),
+      orderBy: `timestamp ${args.order || 'desc'}`,
+      pageSize: Math.min(args.pageSize || 50, MAX_LOG_PAGE_SIZE),
+      pageToken: args.pageToken,
+      autoPaginate: false,
+    });
+
+    return {
+      entries: entries.map(entry => formatLogEntry(entry)),
+      nextPageToken: (nextQuery as any)?.pageToken || null,
+    };
+  }
+
+  async tailLogs(args: GCloudLoggingTailArgs): Promise<any> {
+    if (!this.logging) {
+      throw new Error('Cloud Logging client not initialized');
+    }
+
+    const cursor = args.cursor ? decodeLogCursor(args.cursor) : undefined;
+    const maxEntries = Math.min(args.maxEntries || 100, MAX_LOG_PAGE_SIZE);
+    const deadline = Date.now() + Math.min(args.waitSeconds || 0, MAX_TAIL_WAIT_SECONDS) * 1000;
+
+    // Resume from the cursor, or start a few minutes back on the first call
+    const filter = this.buildLogFilter({
+      ...args,
+      since: cursor?.timestamp || args.since || '5m',
+    });
+
+    for (;;) {
+      const [entries] = await this.logging.getEntries({
+        filter,
+        orderBy: 'timestamp asc',
+        pageSize: maxEntries + (cursor?.insertIds.length || 0),
+        autoPaginate: false,
+      });
+
+      // The timestamp bound is inclusive, so drop entries already returned
+      const fresh = entries
+        .filter(entry => !cursor?.insertIds.includes(entry.metadata.insertId || ''))
+        .slice(0, maxEntries)
+        .map(entry => formatLogEntry(entry));
+
+      if (fresh.length > 0 || Date.now() >= deadline) {
+        return {
+          entries: fresh,
+          cursor: fresh.length > 0 ? encodeLogCursor(fresh, cursor) : args.cursor || encodeLogCursor([], { timestamp: new Date().toISOString(), insertIds: [] }),
+        };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, TAIL_POLL_INTERVAL_MS));
+    }
+  }
+
+  private buildLogFilter(args: GCloudLoggingFilterArgs): string {
+    const clauses: string[] = [];
+
+    if (args.service) {
+      clauses.push(`resource.type="cloud_run_revision" AND resource.labels.service_name="${args.service}"`);
+    }
+    if (args.severity) {
+      clauses.push(`severity>=${args.severity.toUpperCase()}`);
+    }
+    if (args.since) {
+      clauses.push(`timestamp>="${resolveLogTime(args.since)}"`);
+    }
+    if (args.until) {
+      clauses.push(`timestamp<="${resolveLogTime(args.until)}"`);
+    }
+    if (args.filter) {
+      clauses.push(`(${args.filter})`);
+    }
+
+    return clauses.join(' AND ');
+  }
+
+  async listSchedulerJobs(args: GCloudSchedulerListArgs): Promise<any> {
+    if (!this.schedulerClient || !this.projectId) {
+      throw new Error('Cloud Scheduler client not initialized');
+    }
+
+    const [jobs] = await this.schedulerClient.listJobs({
+      parent: `projects/${this.projectId}/locations/${args.region}`,
+    });
+
+    return jobs.map(job => this.formatSchedulerJob(job));
+  }
+
+  async runSchedulerJob(args: GCloudSchedulerJobArgs): Promise<any> {
+    if (!this.schedulerClient) {
+      throw new Error('Cloud Scheduler client not initialized');
+    }
+
+    const [job] = await this.schedulerClient.runJob({ name: this.schedulerJobName(args) });
+    return this.formatSchedulerJob(job);
+  }
+
+  async pauseSchedulerJob(args: GCloudSchedulerJobArgs): Promise<any> {
+    if (!this.schedulerClient) {
+      throw new Error('Cloud Scheduler client not initialized');
+    }
+
+    const [job] = await this.schedulerClient.pauseJob({ name: this.schedulerJobName(args) });
+    return this.formatSchedulerJob(job);
+  }
+
+  async resumeSchedulerJob(args: GCloudSchedulerJobArgs): Promise<any> {
+    if (!this.schedulerClient) {
+      throw new Error('Cloud Scheduler client not initialized');
+    }
+
+    const [job] = await this.schedulerClient.resumeJob({ name: this.schedulerJobName(args) });
+    return this.formatSchedulerJob(job);
+  }
+
+  private schedulerJobName(args: GCloudSchedulerJobArgs): string {
+    if (!this.projectId) {
+      throw new Error('Cloud Scheduler client not initialized');
+    }
+    return `projects/${this.projectId}/locations/${args.region}/jobs/${args.job}`;
+  }
+
+  private formatSchedulerJob(job: any): any {
+    return {
+      name: shortName(job.name),
+      description: job.description || undefined,
+      schedule: job.schedule,
+      timeZone: job.timeZone,
+      state: job.state,
+      target: job.httpTarget
+        ? { type: 'http', method: job.httpTarget.httpMethod, uri: job.httpTarget.uri }
+        : job.pubsubTarget
+          ? { type: 'pubsub', topic: job.pubsubTarget.topicName }
+          : job.appEngineHttpTarget
+            ? { type: 'appengine', uri: job.appEngineHttpTarget.relativeUri }
+            : undefined,
+      // A status code of 0 (or no status) means the last attempt succeeded
+      lastAttempt: job.lastAttemptTime
+        ? {
+            time: toIsoString(job.lastAttemptTime),
+            succeeded: !job.status?.code,
+            code: job.status?.code || 0,
+            message: job.status?.message || undefined,
+          }
+        : null,
+      nextRun: toIsoString(job.scheduleTime),
+    };
+  }
+
+  async executeGCloudCommand(args: GCloudCommandArgs): Promise<GCloudCommandResult> {
+    // The command is split on whitespace and never passed through a shell
+    const argv = buildGCloudArgv(
+      [...args.command.trim().split(/\s+/), ...(args.args || [])],
+      this.commandPolicy,
+    );
+
+    return runGCloudCommand(argv, { timeoutSeconds: args.timeoutSeconds });
+  }
+
+  getTools(): ToolDefinition[] {
     return [
       {
         name: 'gcloud_storage_list',
@@ -171,6 +606,7 @@ export class GCloudIntegration {
           },
           required: ['bucket'],
         },
+        handler: (args) => this.listBucketContents(args),
       },
       {
         name: 'gcloud_storage_read',
@@ -189,6 +625,7 @@ export class GCloudIntegration {
           },
           required: ['bucket', 'file'],
         },
+        handler: (args) => this.readFile(args),
       },
       {
         name: 'gcloud_storage_write',
@@ -215,6 +652,10 @@ export class GCloudIntegration {
           },
           required: ['bucket', 'file', 'content'],
         },
+        handler: async (args) => {
+          await this.writeFile(args);
+          return { success: true };
+        },
       },
       {
         name: 'gcloud_secret_get',
@@ -233,26 +674,373 @@ export class GCloudIntegration {
           },
           required: ['secretId'],
         },
+        handler: (args) => this.getSecret(args),
+      },
+      {
+        name: 'gcloud_run_list_services',
+        description: 'List Cloud Run services with their URL, latest revision and traffic split',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            region: {
+              type: 'string',
+              description: 'Region to list (default: all regions)',
+            },
+          },
+        },
+        handler: (args) => this.listRunServices(args),
+      },
+      {
+        name: 'gcloud_run_list_revisions',
+        description: 'List revisions of a Cloud Run service with images, digests and env var names',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            service: {
+              type: 'string',
+              description: 'Service name (e.g., "pulse-apis")',
+            },
+            region: {
+              type: 'string',
+              description: 'Service region (e.g., "us-central1")',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of revisions to return (default: 20)',
+            },
+          },
+          required: ['service', 'region'],
+        },
+        handler: (args) => this.listRunRevisions(args),
+      },
+      {
+        name: 'gcloud_run_get_traffic',
+        description: 'Show the current traffic split of a Cloud Run service',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            service: {
+              type: 'string',
+              description: 'Service name',
+            },
+            region: {
+              type: 'string',
+              description: 'Service region',
+            },
+          },
+          required: ['service', 'region'],
+        },
+        handler: (args) => this.getRunTraffic(args),
+      },
+      {
+        name: 'gcloud_run_update_traffic',
+        description: 'Shift traffic between Cloud Run revisions (dry run unless confirm is true)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            service: {
+              type: 'string',
+              description: 'Service name',
+            },
+            region: {
+              type: 'string',
+              description: 'Service region',
+            },
+            traffic: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  revision: { type: 'string' },
+                  latest: { type: 'boolean' },
+                  percent: { type: 'number' },
+                  tag: { type: 'string' },
+                },
+                required: ['percent'],
+              },
+              description: 'Traffic targets; percentages must add up to 100. Tagged targets left out are kept at 0%',
+            },
+            confirm: {
+              type: 'boolean',
+              description: 'Apply the change (default: false, only preview it)',
+            },
+          },
+          required: ['service', 'region', 'traffic'],
+        },
+        handler: (args) => this.updateRunTraffic(args),
+      },
+      {
+        name: 'gcloud_run_rollback',
+        description: 'Send all traffic of a Cloud Run service to an earlier revision (dry run unless confirm is true)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            service: {
+              type: 'string',
+              description: 'Service name',
+            },
+            region: {
+              type: 'string',
+              description: 'Service region',
+            },
+            revision: {
+              type: 'string',
+              description: 'Revision to roll back to (default: the one before the currently serving revision)',
+            },
+            confirm: {
+              type: 'boolean',
+              description: 'Apply the rollback (default: false, only preview it)',
+            },
+          },
+          required: ['service', 'region'],
+        },
+        handler: (args) => this.rollbackRunService(args),
+      },
+      {
+        name: 'gcloud_logging_query',
+        description: 'Query Cloud Logging entries with structured results and paging',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            filter: {
+              type: 'string',
+              description: 'Cloud Logging filter expression',
+            },
+            service: {
+              type: 'string',
+              description: 'Only entries from this Cloud Run service',
+            },
+            severity: {
+              type: 'string',
+              enum: ['DEFAULT', 'DEBUG', 'INFO', 'NOTICE', 'WARNING', 'ERROR', 'CRITICAL', 'ALERT', 'EMERGENCY'],
+              description: 'Minimum severity',
+            },
+            since: {
+              type: 'string',
+              description: 'Start of the time window: ISO timestamp or relative duration (e.g., "30m", "2h", "1d")',
+            },
+            until: {
+              type: 'string',
+              description: 'End of the time window: ISO timestamp or relative duration',
+            },
+            pageSize: {
+              type: 'number',
+              description: `Entries per page (default: 50, max: ${MAX_LOG_PAGE_SIZE})`,
+            },
+            pageToken: {
+              type: 'string',
+              description: 'nextPageToken from a previous call',
+            },
+            order: {
+              type: 'string',
+              enum: ['asc', 'desc'],
+              description: 'Sort by timestamp (default: desc)',
+            },
+          },
+        },
+        handler: (args) => this.queryLogs(args),
+      },
+      {
+        name: 'gcloud_logging_tail',
+        description: 'Fetch log entries newer than a cursor; pass the returned cursor to continue tailing',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            filter: {
+              type: 'string',
+              description: 'Cloud Logging filter expression',
+            },
+            service: {
+              type: 'string',
+              description: 'Only entries from this Cloud Run service',
+            },
+            severity: {
+              type: 'string',
+              enum: ['DEFAULT', 'DEBUG', 'INFO', 'NOTICE', 'WARNING', 'ERROR', 'CRITICAL', 'ALERT', 'EMERGENCY'],
+              description: 'Minimum severity',
+            },
+            since: {
+              type: 'string',
+              description: 'Where to start when no cursor is given (default: "5m")',
+            },
+            cursor: {
+              type: 'string',
+              description: 'Cursor returned by the previous tail call',
+            },
+            maxEntries: {
+              type: 'number',
+              description: 'Maximum entries to return (default: 100)',
+            },
+            waitSeconds: {
+              type: 'number',
+              description: `Keep polling up to this many seconds while no new entries arrive (max: ${MAX_TAIL_WAIT_SECONDS})`,
+            },
+          },
+        },
+        handler: (args) => this.tailLogs(args),
+      },
+      {
+        name: 'gcloud_scheduler_list_jobs',
+        description: 'List Cloud Scheduler jobs with schedule, target, last attempt and next run',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            region: {
+              type: 'string',
+              description: 'Region the jobs run in (e.g., "us-central1")',
+            },
+          },
+          required: ['region'],
+        },
+        handler: (args) => this.listSchedulerJobs(args),
+      },
+      {
+        name: 'gcloud_scheduler_run_job',
+        description: 'Force a Cloud Scheduler job to run now',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            job: {
+              type: 'string',
+              description: 'Job name',
+            },
+            region: {
+              type: 'string',
+              description: 'Job region',
+            },
+          },
+          required: ['job', 'region'],
+        },
+        handler: (args) => this.runSchedulerJob(args),
+      },
+      {
+        name: 'gcloud_scheduler_pause_job',
+        description: 'Pause a Cloud Scheduler job',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            job: {
+              type: 'string',
+              description: 'Job name',
+            },
+            region: {
+              type: 'string',
+              description: 'Job region',
+            },
+          },
+          required: ['job', 'region'],
+        },
+        handler: (args) => this.pauseSchedulerJob(args),
+      },
+      {
+        name: 'gcloud_scheduler_resume_job',
+        description: 'Resume a paused Cloud Scheduler job',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            job: {
+              type: 'string',
+              description: 'Job name',
+            },
+            region: {
+              type: 'string',
+              description: 'Job region',
+            },
+          },
+          required: ['job', 'region'],
+        },
+        handler: (args) => this.resumeSchedulerJob(args),
       },
       {
         name: 'gcloud_command',
-        description: 'Execute a gcloud CLI command',
+        description: 'Execute an allowlisted gcloud CLI command and return its JSON output, stderr and exit code',
         inputSchema: {
           type: 'object',
           properties: {
             command: {
               type: 'string',
-              description: 'gcloud command to execute (e.g., "compute instances list")',
+              description: 'gcloud command to execute (e.g., "run services list")',
             },
             args: {
               type: 'array',
               items: { type: 'string' },
-              description: 'Additional arguments for the command',
+              description: 'Additional arguments, one per item; flags take their value as --flag=value (e.g., ["--region=us-central1"])',
+            },
+            timeoutSeconds: {
+              type: 'number',
+              description: 'Kill the command after this many seconds (default: 60, max: 300)',
             },
           },
           required: ['command'],
         },
+        handler: (args) => this.executeGCloudCommand(args),
       },
     ];
   }
-}
\ No newline at end of file
+}
+
+function shortName(resourceName?: string | null): string | undefined {
+  return resourceName ? resourceName.split('/').pop() : undefined;
+}
+
+function toIsoString(timestamp?: { seconds?: any; nanos?: number | null } | null): string | undefined {
+  if (!timestamp?.seconds) {
+    return undefined;
+  }
+  return new Date(Number(timestamp.seconds) * 1000 + Math.floor((timestamp.nanos || 0) / 1e6)).toISOString();
+}
+
+// Accept either an absolute timestamp or a duration relative to now
+function resolveLogTime(value: string): string {
+  const match = /^(\d+)([smhd])$/.exec(value.trim());
+  if (!match) {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid time: ${value}`);
+    }
+    return date.toISOString();
+  }
+
+  const unitMs = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 's' | 'm' | 'h' | 'd'];
+  return new Date(Date.now() - Number(match[1]) * unitMs).toISOString();
+}
+
+function formatLogEntry(entry: Entry): any {
+  const metadata = entry.metadata;
+  const timestamp = metadata.timestamp instanceof Date
+    ? metadata.timestamp.toISOString()
+    : typeof metadata.timestamp === 'string'
+      ? metadata.timestamp
+      : toIsoString(metadata.timestamp);
+
+  return {
+    timestamp,
+    severity: metadata.severity,
+    insertId: metadata.insertId,
+    logName: metadata.logName?.split('/').pop(),
+    trace: metadata.trace,
+    resource: metadata.resource?.labels,
+    httpRequest: metadata.httpRequest,
+    jsonPayload: typeof entry.data === 'object' ? entry.data : undefined,
+    textPayload: typeof entry.data === 'string' ? entry.data : undefined,
+  };
+}
+
+// Tail cursors remember the last timestamp and the entries seen at it
+function encodeLogCursor(entries: any[], previous?: { timestamp: string; insertIds: string[] }): string {
+  const timestamp = entries.length > 0 ? entries[entries.length - 1].timestamp : previous?.timestamp;
+  const insertIds = entries.filter(entry => entry.timestamp === timestamp).map(entry => entry.insertId);
+  if (previous && previous.timestamp === timestamp) {
+    insertIds.push(...previous.insertIds);
+  }
+  return Buffer.from(JSON.stringify({ timestamp, insertIds })).toString('base64url');
+}
+
+function decodeLogCursor(cursor: string): { timestamp: string; insertIds: string[] } {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return { timestamp: decoded.timestamp, insertIds: decoded.insertIds || [] };
+  } catch {
+    throw new Error('Invalid log cursor');
+  }
+}
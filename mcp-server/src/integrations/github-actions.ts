@@ -0,0 +1,58 @@
+/**
+ * Helpers for GitHub Actions job logs. Every log line starts with an ISO
+ * timestamp, and the job's steps report when they started and completed, so
+ * a step's output is the lines logged within that window.
+ */
+
+const LOG_TIMESTAMP = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z) /;
+
+export const DEFAULT_LOG_LINES = 200;
+export const MAX_LOG_LINES = 2000;
+
+export interface JobStep {
+  number: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  started_at?: string | null;
+  completed_at?: string | null;
+}
+
+/** Return the lines a step logged, or undefined when its window is unknown. */
+export function sliceStepLog(log: string, step: JobStep): string[] | undefined {
+  if (!step.started_at || !step.completed_at) {
+    return undefined;
+  }
+
+  // Step times are truncated to whole seconds while log lines are not
+  const from = Math.floor(Date.parse(step.started_at) / 1000) * 1000;
+  const to = Math.floor(Date.parse(step.completed_at) / 1000) * 1000 + 1000;
+
+  const lines: string[] = [];
+  let inside = false;
+
+  for (const line of log.split('\n')) {
+    const match = LOG_TIMESTAMP.exec(line);
+    if (match) {
+      const time = Date.parse(match[1]);
+      inside = time >= from && time < to;
+    }
+    // Lines without a timestamp continue the previous line
+    if (inside) {
+      lines.push(line);
+    }
+  }
+
+  return lines.length > 0 ? lines : undefined;
+}
+
+export function tailLines(lines: string[], count: number): { lines: string[]; truncated: boolean } {
+  return {
+    lines: lines.slice(-count),
+    truncated: lines.length > count,
+  };
+}
+
+export function isFailedStep(step: JobStep): boolean {
+  return step.conclusion === 'failure' || step.conclusion === 'timed_out';
+}
@@ -0,0 +1,87 @@
+/**
+ * Helpers for reading repository content: binary detection, line slicing and
+ * glob matching for tree listings.
+ */
+
+export const MAX_TREE_ENTRIES = 5000;
+
+/** Same heuristic as git: a NUL byte early in the file means binary. */
+export function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+export function sliceLines(text: string, startLine?: number, endLine?: number): {
+  content: string;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+} {
+  const lines = text.split('\n');
+  // A trailing newline does not start another line
+  const totalLines = text.endsWith('\n') ? lines.length - 1 : lines.length;
+  const start = Math.max(startLine || 1, 1);
+  const end = Math.min(endLine || totalLines, totalLines);
+
+  return {
+    content: lines.slice(start - 1, end).join('\n'),
+    startLine: start,
+    endLine: end,
+    totalLines,
+  };
+}
+
+/**
+ * Convert a glob to a regular expression over a path: `**` matches across
+ * directories, `*` and `?` within one, and `{a,b}` either alternative.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches no directory at all
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = glob.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+        continue;
+      }
+      const options = glob.slice(i + 1, close).split(',').map(option => globToRegExp(option).source.slice(1, -1));
+      source += `(?:${options.join('|')})`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Build a path filter for entries below `base`. Globs containing a slash match
+ * the path relative to `base`; other globs match the file name at any depth,
+ * so "*.sql" finds every SQL file.
+ */
+export function globMatcher(glob: string, base: string): (path: string) => boolean {
+  const pattern = globToRegExp(glob);
+  const prefix = base.replace(/^\/+|\/+$/g, '');
+
+  return (path: string) => {
+    if (!glob.includes('/')) {
+      return pattern.test(path.slice(path.lastIndexOf('/') + 1));
+    }
+    const relative = prefix && path.startsWith(`${prefix}/`) ? path.slice(prefix.length + 1) : path;
+    return pattern.test(relative);
+  };
+}
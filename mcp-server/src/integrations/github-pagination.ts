@@ -0,0 +1,88 @@
+/**
+ * Paging for GitHub list and search tools. Results carry an opaque cursor that
+ * records the page, page size and how many items of that page were already
+ * returned, so a capped `all` fetch can resume exactly where it stopped.
+ */
+
+export const DEFAULT_PER_PAGE = 30;
+export const DEFAULT_MAX_ITEMS = 500;
+export const MAX_ITEMS = 2000;
+
+export interface GitHubPageArgs {
+  per_page?: number;
+  page?: number;
+  cursor?: string;
+  all?: boolean;
+  maxItems?: number;
+}
+
+export interface GitHubPage<T = any> {
+  items: T[];
+  totalCount?: number;
+  nextCursor?: string;
+}
+
+export interface PagePosition {
+  page: number;
+  perPage: number;
+  skip: number;
+}
+
+export const PAGINATION_SCHEMA_PROPERTIES = {
+  per_page: {
+    type: 'number',
+    description: `Results per page (default: ${DEFAULT_PER_PAGE}, max: 100)`,
+  },
+  page: {
+    type: 'number',
+    description: 'Page number (default: 1)',
+  },
+  cursor: {
+    type: 'string',
+    description: 'nextCursor from a previous call',
+  },
+  all: {
+    type: 'boolean',
+    description: 'Fetch every page, up to maxItems',
+  },
+  maxItems: {
+    type: 'number',
+    description: `Item cap when all is set (default: ${DEFAULT_MAX_ITEMS}, max: ${MAX_ITEMS})`,
+  },
+};
+
+export function encodePageCursor(position: PagePosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+export function resolvePagePosition(args: GitHubPageArgs, allPerPage: number): PagePosition {
+  if (args.cursor) {
+    try {
+      const position = JSON.parse(Buffer.from(args.cursor, 'base64url').toString('utf-8'));
+      if (Number.isInteger(position.page) && Number.isInteger(position.perPage)) {
+        return { page: position.page, perPage: position.perPage, skip: position.skip || 0 };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new Error('Invalid cursor');
+  }
+
+  return {
+    page: args.page || 1,
+    perPage: Math.min(args.per_page || (args.all ? allPerPage : DEFAULT_PER_PAGE), 100),
+    skip: 0,
+  };
+}
+
+/** Read a page number from an RFC 8288 Link header, e.g. rel="last". */
+export function linkPage(link: string | undefined, rel: string): number | undefined {
+  for (const part of (link || '').split(',')) {
+    const match = /<([^>]+)>;\s*rel="([^"]+)"/.exec(part);
+    if (match && match[2] === rel) {
+      const page = new URL(match[1]).searchParams.get('page');
+      return page ? Number(page) : undefined;
+    }
+  }
+  return undefined;
+}
@@ -1,17 +1,37 @@
 import { Octokit } from '@octokit/rest';
 import { SecretsManager } from '../secrets.js';
+import { Integration, ToolDefinition } from './types.js';
+import {
+  encodePageCursor,
+  linkPage,
+  resolvePagePosition,
+  DEFAULT_MAX_ITEMS,
+  GitHubPage,
+  GitHubPageArgs,
+  MAX_ITEMS,
+  PagePosition,
+  PAGINATION_SCHEMA_PROPERTIES,
+} from './github-pagination.js';
+import {
+  isFailedStep,
+  sliceStepLog,
+  tailLines,
+  DEFAULT_LOG_LINES,
+  JobStep,
+  MAX_LOG_LINES,
+} from './github-actions.js';
+import { globMatcher, isBinary, sliceLines, MAX_TREE_ENTRIES } from './github-files.js';
 
 export interface GitHubRepoArgs {
   owner: string;
   repo: string;
 }
 
-export interface GitHubIssueArgs extends GitHubRepoArgs {
+export interface GitHubIssueArgs extends GitHubRepoArgs, GitHubPageArgs {
   state?: 'open' | 'closed' | 'all';
   labels?: string[];
   assignee?: string;
   creator?: string;
-  per_page?: number;
 }
 
 export interface GitHubCreateIssueArgs extends GitHubRepoArgs {
@@ -21,11 +41,41 @@ export interface GitHubCreateIssueArgs extends GitHubRepoArgs {
   assignees?: string[];
 }
 
-export interface GitHubPRArgs extends GitHubRepoArgs {
+export interface GitHubIssueNumberArgs extends GitHubRepoArgs {
+  issue_number: number;
+}
+
+export interface GitHubUpdateIssueArgs extends GitHubIssueNumberArgs {
+  title?: string;
+  body?: string;
+  state?: 'open' | 'closed';
+  state_reason?: 'completed' | 'not_planned' | 'reopened';
+  assignees?: string[];
+  milestone?: number | string | null;
+}
+
+export interface GitHubIssueCommentArgs extends GitHubIssueNumberArgs {
+  body: string;
+}
+
+export interface GitHubIssueCommentsArgs extends GitHubIssueNumberArgs, GitHubPageArgs {}
+
+export interface GitHubIssueLabelsArgs extends GitHubIssueNumberArgs {
+  add?: string[];
+  remove?: string[];
+}
+
+export interface GitHubLinkIssueArgs extends GitHubIssueNumberArgs {
+  pull_number: number;
+  /** Repository of the issue as owner/repo when it differs from the PR's */
+  issueRepository?: string;
+  keyword?: 'Closes' | 'Fixes' | 'Resolves' | 'Refs';
+}
+
+export interface GitHubPRArgs extends GitHubRepoArgs, GitHubPageArgs {
   state?: 'open' | 'closed' | 'all';
   head?: string;
   base?: string;
-  per_page?: number;
 }
 
 export interface GitHubCreatePRArgs extends GitHubRepoArgs {
@@ -36,18 +86,142 @@ export interface GitHubCreatePRArgs extends GitHubRepoArgs {
   draft?: boolean;
 }
 
+export interface GitHubPullArgs extends GitHubRepoArgs {
+  pull_number: number;
+}
+
+export interface GitHubPullFilesArgs extends GitHubPullArgs, GitHubPageArgs {}
+
+export interface GitHubPullDiffArgs extends GitHubPullArgs {
+  maxBytes?: number;
+}
+
+export interface GitHubChecksArgs extends GitHubRepoArgs {
+  ref: string;
+}
+
+export interface GitHubReviewComment {
+  path: string;
+  line: number;
+  side?: 'LEFT' | 'RIGHT';
+  start_line?: number;
+  body: string;
+}
+
+export interface GitHubCreateReviewArgs extends GitHubPullArgs {
+  event: 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+  body?: string;
+  comments?: GitHubReviewComment[];
+  commit_id?: string;
+}
+
+export interface GitHubWorkflowRunsArgs extends GitHubRepoArgs, GitHubPageArgs {
+  workflow?: string | number;
+  branch?: string;
+  event?: string;
+  status?: string;
+}
+
+export interface GitHubWorkflowRunArgs extends GitHubRepoArgs {
+  run_id: number;
+}
+
+export interface GitHubJobLogArgs extends GitHubRepoArgs {
+  job_id: number;
+  step?: number;
+  lines?: number;
+}
+
+export interface GitHubDispatchWorkflowArgs extends GitHubRepoArgs {
+  workflow: string | number;
+  ref?: string;
+  inputs?: Record<string, string | number | boolean>;
+}
+
 export interface GitHubFileArgs extends GitHubRepoArgs {
   path: string;
   ref?: string;
 }
 
-export interface GitHubSearchArgs {
+export interface GitHubGetFileArgs extends GitHubFileArgs {
+  recursive?: boolean;
+  pattern?: string;
+  encoding?: 'utf-8' | 'base64';
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface GitHubCreateBranchArgs extends GitHubRepoArgs {
+  branch: string;
+  from?: string;
+}
+
+export interface GitHubPutFileArgs extends GitHubRepoArgs {
+  path: string;
+  content: string;
+  message: string;
+  branch: string;
+  sha?: string;
+}
+
+export interface GitHubFileChange {
+  path: string;
+  content?: string;
+  encoding?: 'utf-8' | 'base64';
+  delete?: boolean;
+}
+
+export interface GitHubProposeChangeArgs extends GitHubRepoArgs {
+  branch: string;
+  base?: string;
+  message: string;
+  files: GitHubFileChange[];
+  title: string;
+  body?: string;
+  draft?: boolean;
+}
+
+export interface GitHubSearchArgs extends GitHubPageArgs {
   query: string;
   type: 'repositories' | 'code' | 'issues' | 'users';
-  per_page?: number;
 }
 
-export class GitHubIntegration {
+export interface GitHubSearchIssuesArgs extends GitHubPageArgs {
+  query: string;
+}
+
+type BlobMode = '100644' | '100755' | '120000';
+
+// Large diffs are cut so a single response stays readable
+const DEFAULT_DIFF_BYTES = 200_000;
+
+export const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'cancelled', 'action_required', 'startup_failure'];
+
+const BRANCHES_QUERY = `
+  query($owner: String!, $repo: String!, $after: String) {
+    repository(owner: $owner, name: $repo) {
+      refs(refPrefix: "refs/heads/", first: 100, after: $after) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          name
+          target {
+            ... on Commit {
+              oid
+              committedDate
+              author { name user { login } }
+            }
+          }
+          associatedPullRequests(states: OPEN, first: 1) {
+            nodes { number url }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export class GitHubIntegration implements Integration {
+  readonly name = 'github';
   private octokit?: Octokit;
   private secretsManager: SecretsManager;
 
@@ -103,28 +277,16 @@ export class GitHubIntegration {
       throw new Error('GitHub client not initialized');
     }
 
-    const { data } = await this.octokit.issues.listForRepo({
+    const params = {
       owner: args.owner,
       repo: args.repo,
       state: args.state || 'open',
       labels: args.labels?.join(','),
       assignee: args.assignee,
       creator: args.creator,
-      per_page: args.per_page || 30,
-    });
+    };
 
-    return data.map(issue => ({
-      number: issue.number,
-      title: issue.title,
-      state: issue.state,
-      body: issue.body,
-      user: issue.user?.login,
-      labels: issue.labels?.map(l => (typeof l === 'string' ? l : l.name)),
-      assignees: issue.assignees?.map(a => a.login),
-      createdAt: issue.created_at,
-      updatedAt: issue.updated_at,
-      url: issue.html_url,
-    }));
+    return this.paginate(this.octokit.issues.listForRepo, params, args, formatIssue);
   }
 
   async createIssue(args: GitHubCreateIssueArgs): Promise<any> {
@@ -149,21 +311,152 @@ export class GitHubIntegration {
     };
   }
 
+  async updateIssue(args: GitHubUpdateIssueArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const { data } = await this.octokit.issues.update({
+      owner: args.owner,
+      repo: args.repo,
+      issue_number: args.issue_number,
+      title: args.title,
+      body: args.body,
+      state: args.state,
+      state_reason: args.state_reason,
+      assignees: args.assignees,
+      milestone: typeof args.milestone === 'string'
+        ? await this.findMilestone(args, args.milestone)
+        : args.milestone,
+    });
+
+    return {
+      ...formatIssue(data),
+      stateReason: data.state_reason,
+      milestone: data.milestone?.title,
+    };
+  }
+
+  async addIssueComment(args: GitHubIssueCommentArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const { data } = await this.octokit.issues.createComment({
+      owner: args.owner,
+      repo: args.repo,
+      issue_number: args.issue_number,
+      body: args.body,
+    });
+
+    return formatComment(data);
+  }
+
+  async listIssueComments(args: GitHubIssueCommentsArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const params = { owner: args.owner, repo: args.repo, issue_number: args.issue_number };
+    return this.paginate(this.octokit.issues.listComments, params, args, formatComment);
+  }
+
+  async updateIssueLabels(args: GitHubIssueLabelsArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const params = { owner: args.owner, repo: args.repo, issue_number: args.issue_number };
+
+    if (args.add?.length) {
+      await this.octokit.issues.addLabels({ ...params, labels: args.add });
+    }
+
+    for (const name of args.remove || []) {
+      try {
+        await this.octokit.issues.removeLabel({ ...params, name });
+      } catch (error: any) {
+        // Removing a label the issue does not have is not an error here
+        if (error.status !== 404) {
+          throw error;
+        }
+      }
+    }
+
+    const labels = await this.octokit.paginate(this.octokit.issues.listLabelsOnIssue, {
+      ...params,
+      per_page: 100,
+    });
+
+    return { issue_number: args.issue_number, labels: labels.map(label => label.name) };
+  }
+
+  /**
+   * Link an issue to a pull request by adding a closing keyword to the PR
+   * description, which is how GitHub records the link.
+   */
+  async linkIssueToPullRequest(args: GitHubLinkIssueArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const issueRef = args.issueRepository && args.issueRepository !== `${args.owner}/${args.repo}`
+      ? `${args.issueRepository}#${args.issue_number}`
+      : `#${args.issue_number}`;
+    const keyword = args.keyword || 'Closes';
+    const line = `${keyword} ${issueRef}`;
+    const closesOnMerge = keyword !== 'Refs';
+
+    const { data: pr } = await this.octokit.pulls.get({
+      owner: args.owner,
+      repo: args.repo,
+      pull_number: args.pull_number,
+    });
+
+    const body = pr.body || '';
+    if (body.split('\n').some(existing => existing.trim() === line)) {
+      return { pull_number: args.pull_number, issue: issueRef, closesOnMerge, changed: false };
+    }
+
+    await this.octokit.pulls.update({
+      owner: args.owner,
+      repo: args.repo,
+      pull_number: args.pull_number,
+      body: body ? `${body}\n\n${line}` : line,
+    });
+
+    return { pull_number: args.pull_number, issue: issueRef, closesOnMerge, changed: true };
+  }
+
+  private async findMilestone(args: GitHubRepoArgs, title: string): Promise<number> {
+    const milestones = await this.octokit!.paginate(this.octokit!.issues.listMilestones, {
+      owner: args.owner,
+      repo: args.repo,
+      state: 'all',
+      per_page: 100,
+    });
+
+    const milestone = milestones.find(candidate => candidate.title === title);
+    if (!milestone) {
+      throw new Error(`Milestone not found: ${title}`);
+    }
+    return milestone.number;
+  }
+
   async listPullRequests(args: GitHubPRArgs): Promise<any> {
     if (!this.octokit) {
       throw new Error('GitHub client not initialized');
     }
 
-    const { data } = await this.octokit.pulls.list({
+    const params = {
       owner: args.owner,
       repo: args.repo,
       state: args.state || 'open',
       head: args.head,
       base: args.base,
-      per_page: args.per_page || 30,
-    });
+    };
 
-    return data.map(pr => ({
+    return this.paginate(this.octokit.pulls.list, params, args, (pr: any) => ({
       number: pr.number,
       title: pr.title,
       state: pr.state,
@@ -202,138 +495,871 @@ export class GitHubIntegration {
     };
   }
 
-  async getFileContent(args: GitHubFileArgs): Promise<any> {
+  async listPullRequestFiles(args: GitHubPullFilesArgs): Promise<any> {
     if (!this.octokit) {
       throw new Error('GitHub client not initialized');
     }
 
-    try {
-      const { data } = await this.octokit.repos.getContent({
-        owner: args.owner,
-        repo: args.repo,
-        path: args.path,
-        ref: args.ref,
-      });
+    const params = { owner: args.owner, repo: args.repo, pull_number: args.pull_number };
 
-      if ('content' in data && data.type === 'file') {
-        return {
-          name: data.name,
-          path: data.path,
-          content: Buffer.from(data.content, 'base64').toString('utf-8'),
-          size: data.size,
-          sha: data.sha,
-          url: data.html_url,
-        };
-      } else {
-        throw new Error('Path is not a file');
-      }
-    } catch (error: any) {
-      if (error.status === 404) {
-        throw new Error(`File not found: ${args.path}`);
-      }
-      throw error;
+    return this.paginate(this.octokit.pulls.listFiles, params, args, (file: any) => ({
+      filename: file.filename,
+      status: file.status,
+      previousFilename: file.previous_filename,
+      additions: file.additions,
+      deletions: file.deletions,
+      changes: file.changes,
+      // GitHub omits patches for binary and very large files
+      patch: file.patch,
+    }));
+  }
+
+  async getPullRequestDiff(args: GitHubPullDiffArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
     }
+
+    const { data } = await this.octokit.pulls.get({
+      owner: args.owner,
+      repo: args.repo,
+      pull_number: args.pull_number,
+      mediaType: { format: 'diff' },
+    });
+
+    const diff = data as unknown as string;
+    const maxBytes = args.maxBytes || DEFAULT_DIFF_BYTES;
+    const size = Buffer.byteLength(diff);
+
+    return {
+      size,
+      truncated: size > maxBytes,
+      diff: size > maxBytes ? Buffer.from(diff).subarray(0, maxBytes).toString('utf-8') : diff,
+    };
   }
 
-  async search(args: GitHubSearchArgs): Promise<any> {
+  async listPullRequestReviews(args: GitHubPullArgs): Promise<any> {
     if (!this.octokit) {
       throw new Error('GitHub client not initialized');
     }
 
-    const searchMethod = {
-      repositories: this.octokit.search.repos,
-      code: this.octokit.search.code,
-      issues: this.octokit.search.issuesAndPullRequests,
-      users: this.octokit.search.users,
-    }[args.type];
+    const params = { owner: args.owner, repo: args.repo, pull_number: args.pull_number };
+
+    const [reviews, comments] = await Promise.all([
+      this.paginate(this.octokit.pulls.listReviews, params, { all: true }, (review: any) => ({
+        id: review.id,
+        user: review.user?.login,
+        state: review.state,
+        body: review.body,
+        commitId: review.commit_id,
+        submittedAt: review.submitted_at,
+        url: review.html_url,
+      })),
+      this.paginate(this.octokit.pulls.listReviewComments, params, { all: true }, (comment: any) => ({
+        id: comment.id,
+        reviewId: comment.pull_request_review_id,
+        inReplyTo: comment.in_reply_to_id,
+        user: comment.user?.login,
+        path: comment.path,
+        line: comment.line ?? undefined,
+        startLine: comment.start_line ?? undefined,
+        side: comment.side,
+        outdated: comment.line === null,
+        body: comment.body,
+        diffHunk: comment.diff_hunk,
+        createdAt: comment.created_at,
+        url: comment.html_url,
+      })),
+    ]);
+
+    return { reviews: reviews.items, comments: comments.items };
+  }
+
+  async getPullRequestChecks(args: GitHubPullArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
 
-    const { data } = await searchMethod({
-      q: args.query,
-      per_page: args.per_page || 30,
+    const { data: pr } = await this.octokit.pulls.get({
+      owner: args.owner,
+      repo: args.repo,
+      pull_number: args.pull_number,
     });
 
-    return data.items;
+    return {
+      pull_number: args.pull_number,
+      ...(await this.getChecks({ owner: args.owner, repo: args.repo, ref: pr.head.sha })),
+    };
   }
 
-  getTools() {
-    return [
-      {
-        name: 'github_get_repo',
-        description: 'Get information about a GitHub repository',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            owner: {
-              type: 'string',
-              description: 'Repository owner',
-            },
-            repo: {
-              type: 'string',
-              description: 'Repository name',
-            },
-          },
-          required: ['owner', 'repo'],
-        },
-      },
-      {
-        name: 'github_list_issues',
-        description: 'List issues in a GitHub repository',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            owner: {
-              type: 'string',
-              description: 'Repository owner',
-            },
-            repo: {
-              type: 'string',
-              description: 'Repository name',
-            },
-            state: {
-              type: 'string',
-              enum: ['open', 'closed', 'all'],
-              description: 'Issue state',
-            },
-            labels: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Filter by labels',
-            },
-            assignee: {
-              type: 'string',
-              description: 'Filter by assignee',
-            },
-            creator: {
-              type: 'string',
-              description: 'Filter by creator',
-            },
-            per_page: {
-              type: 'number',
-              description: 'Results per page',
-            },
-          },
-          required: ['owner', 'repo'],
-        },
-      },
-      {
-        name: 'github_create_issue',
-        description: 'Create a new issue in a GitHub repository',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            owner: {
-              type: 'string',
-              description: 'Repository owner',
-            },
-            repo: {
-              type: 'string',
-              description: 'Repository name',
-            },
-            title: {
-              type: 'string',
-              description: 'Issue title',
-            },
-            body: {
+  /**
+   * Combine check runs (GitHub Actions and apps) and commit statuses (older
+   * integrations) for a ref into one overall state.
+   */
+  async getChecks(args: GitHubChecksArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const params = { owner: args.owner, repo: args.repo, ref: args.ref };
+    const [checkRuns, status] = await Promise.all([
+      this.octokit.paginate(this.octokit.checks.listForRef, { ...params, per_page: 100 }),
+      this.octokit.repos.getCombinedStatusForRef(params),
+    ]);
+
+    const checks = checkRuns.map(run => ({
+      name: run.name,
+      status: run.status,
+      conclusion: run.conclusion,
+      startedAt: run.started_at,
+      completedAt: run.completed_at,
+      url: run.html_url,
+    }));
+    const statuses = status.data.statuses.map(item => ({
+      context: item.context,
+      state: item.state,
+      description: item.description,
+      url: item.target_url,
+    }));
+
+    const failed = checks.filter(check => FAILED_CONCLUSIONS.includes(check.conclusion || '')).length
+      + statuses.filter(item => item.state === 'failure' || item.state === 'error').length;
+    const pending = checks.filter(check => check.status !== 'completed').length
+      + statuses.filter(item => item.state === 'pending').length;
+
+    return {
+      ref: args.ref,
+      sha: status.data.sha,
+      state: failed > 0 ? 'failure' : pending > 0 ? 'pending' : checks.length + statuses.length > 0 ? 'success' : 'none',
+      failed,
+      pending,
+      checks,
+      statuses,
+    };
+  }
+
+  async createReview(args: GitHubCreateReviewArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    // GitHub rejects these without a summary, even when line comments are given
+    if (args.event !== 'APPROVE' && !args.body) {
+      throw new Error(`A ${args.event} review needs a body`);
+    }
+
+    const { data } = await this.octokit.pulls.createReview({
+      owner: args.owner,
+      repo: args.repo,
+      pull_number: args.pull_number,
+      event: args.event,
+      body: args.body,
+      commit_id: args.commit_id,
+      comments: args.comments?.map(comment => ({
+        path: comment.path,
+        line: comment.line,
+        side: comment.side || 'RIGHT',
+        start_line: comment.start_line,
+        start_side: comment.start_line ? comment.side || 'RIGHT' : undefined,
+        body: comment.body,
+      })),
+    });
+
+    return {
+      id: data.id,
+      state: data.state,
+      commitId: data.commit_id,
+      url: data.html_url,
+    };
+  }
+
+  async listWorkflowRuns(args: GitHubWorkflowRunsArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const params = {
+      owner: args.owner,
+      repo: args.repo,
+      branch: args.branch,
+      event: args.event,
+      status: args.status as any,
+    };
+
+    const map = (run: any) => ({
+      id: run.id,
+      name: run.name,
+      workflowId: run.workflow_id,
+      runNumber: run.run_number,
+      attempt: run.run_attempt,
+      event: run.event,
+      branch: run.head_branch,
+      sha: run.head_sha,
+      status: run.status,
+      conclusion: run.conclusion,
+      actor: run.actor?.login,
+      createdAt: run.created_at,
+      updatedAt: run.updated_at,
+      url: run.html_url,
+    });
+
+    if (args.workflow !== undefined) {
+      return this.paginate(
+        this.octokit.actions.listWorkflowRuns,
+        { ...params, workflow_id: args.workflow },
+        args,
+        map,
+      );
+    }
+    return this.paginate(this.octokit.actions.listWorkflowRunsForRepo, params, args, map);
+  }
+
+  async listWorkflowRunJobs(args: GitHubWorkflowRunArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const jobs = await this.octokit.paginate(this.octokit.actions.listJobsForWorkflowRun, {
+      owner: args.owner,
+      repo: args.repo,
+      run_id: args.run_id,
+      filter: 'latest',
+      per_page: 100,
+    });
+
+    return jobs.map(job => {
+      const steps = (job.steps || []) as JobStep[];
+      return {
+        id: job.id,
+        name: job.name,
+        status: job.status,
+        conclusion: job.conclusion,
+        startedAt: job.started_at,
+        completedAt: job.completed_at,
+        url: job.html_url,
+        failedSteps: steps.filter(isFailedStep).map(step => ({ number: step.number, name: step.name })),
+        steps: steps.map(step => ({
+          number: step.number,
+          name: step.name,
+          status: step.status,
+          conclusion: step.conclusion,
+        })),
+      };
+    });
+  }
+
+  /**
+   * Return the end of a job's log. By default only the output of the first
+   * failed step is kept, since that is usually where the error is.
+   */
+  async getJobLog(args: GitHubJobLogArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const params = { owner: args.owner, repo: args.repo, job_id: args.job_id };
+    const [{ data: job }, { data: log }] = await Promise.all([
+      this.octokit.actions.getJobForWorkflowRun(params),
+      this.octokit.actions.downloadJobLogsForWorkflowRun(params),
+    ]);
+
+    const steps = (job.steps || []) as JobStep[];
+    const step = args.step !== undefined
+      ? steps.find(candidate => candidate.number === args.step)
+      : steps.find(isFailedStep);
+    if (args.step !== undefined && !step) {
+      throw new Error(`Job ${args.job_id} has no step ${args.step}`);
+    }
+
+    const allLines = String(log).split('\n');
+    const stepLines = step ? sliceStepLog(String(log), step) : undefined;
+    const tail = tailLines(stepLines || allLines, Math.min(args.lines || DEFAULT_LOG_LINES, MAX_LOG_LINES));
+
+    return {
+      job: job.name,
+      conclusion: job.conclusion,
+      step: stepLines && step ? { number: step.number, name: step.name, conclusion: step.conclusion } : undefined,
+      truncated: tail.truncated,
+      log: tail.lines.join('\n'),
+    };
+  }
+
+  async rerunFailedJobs(args: GitHubWorkflowRunArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    await this.octokit.actions.reRunWorkflowFailedJobs({
+      owner: args.owner,
+      repo: args.repo,
+      run_id: args.run_id,
+    });
+
+    return { run_id: args.run_id, rerun: true };
+  }
+
+  async dispatchWorkflow(args: GitHubDispatchWorkflowArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const ref = args.ref || (await this.getRepository(args)).defaultBranch;
+
+    // Inputs are always sent as strings by the GitHub UI, so do the same
+    const inputs = Object.fromEntries(
+      Object.entries(args.inputs || {}).map(([key, value]) => [key, String(value)]),
+    );
+
+    await this.octokit.actions.createWorkflowDispatch({
+      owner: args.owner,
+      repo: args.repo,
+      workflow_id: args.workflow,
+      ref,
+      inputs,
+    });
+
+    // The API does not return the run it created
+    return { workflow: args.workflow, ref, dispatched: true };
+  }
+
+  async getFileContent(args: GitHubFileArgs): Promise<any> {
+    const data = await this.getContent(args);
+    if (Array.isArray(data) || data.type !== 'file') {
+      throw new Error('Path is not a file');
+    }
+
+    return this.readFile(args, data);
+  }
+
+  /**
+   * Read a file, list a directory, or with `recursive` list everything below
+   * a path. Entries can be filtered by path with a glob.
+   */
+  async getPath(args: GitHubGetFileArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    if (args.recursive) {
+      return this.getTree(args);
+    }
+
+    const data = await this.getContent(args);
+
+    if (Array.isArray(data)) {
+      const matches = args.pattern ? globMatcher(args.pattern, args.path) : undefined;
+      return {
+        type: 'dir',
+        path: args.path,
+        entries: data.map(formatDirectoryEntry).filter(entry => !matches || matches(entry.path)),
+      };
+    }
+
+    if (data.type !== 'file') {
+      throw new Error(`Path is a ${data.type}, not a file or directory`);
+    }
+
+    return this.readFile(args, data);
+  }
+
+  private async getContent(args: GitHubFileArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    try {
+      const { data } = await this.octokit.repos.getContent({
+        owner: args.owner,
+        repo: args.repo,
+        path: args.path,
+        ref: args.ref,
+      });
+      return data;
+    } catch (error: any) {
+      if (error.status === 404) {
+        throw new Error(`Path not found: ${args.path}`);
+      }
+      throw error;
+    }
+  }
+
+  private async readFile(args: GitHubGetFileArgs, data: any): Promise<any> {
+    let buffer: Buffer;
+    if (data.size > 0 && !data.content) {
+      // The Contents API leaves content empty for files over 1 MB
+      const { data: blob } = await this.octokit!.git.getBlob({
+        owner: args.owner,
+        repo: args.repo,
+        file_sha: data.sha,
+      });
+      buffer = Buffer.from(blob.content, 'base64');
+    } else {
+      buffer = Buffer.from(data.content || '', 'base64');
+    }
+
+    const file = {
+      name: data.name,
+      path: data.path,
+      size: data.size,
+      sha: data.sha,
+      url: data.html_url,
+    };
+
+    const binary = isBinary(buffer);
+    if (binary || args.encoding === 'base64') {
+      return { ...file, binary, encoding: 'base64', content: buffer.toString('base64') };
+    }
+
+    const text = buffer.toString('utf-8');
+    if (args.startLine || args.endLine) {
+      return { ...file, ...sliceLines(text, args.startLine, args.endLine) };
+    }
+
+    return { ...file, content: text };
+  }
+
+  private async getTree(args: GitHubGetFileArgs): Promise<any> {
+    const ref = args.ref || (await this.getRepository(args)).defaultBranch;
+    const { data } = await this.octokit!.git.getTree({
+      owner: args.owner,
+      repo: args.repo,
+      tree_sha: ref,
+      recursive: 'true',
+    });
+
+    const prefix = args.path.replace(/^\/+|\/+$/g, '');
+    const matches = args.pattern ? globMatcher(args.pattern, prefix) : undefined;
+
+    const entries = data.tree
+      .filter(entry => !prefix || entry.path!.startsWith(`${prefix}/`))
+      .filter(entry => !matches || matches(entry.path!))
+      .map(entry => ({
+        path: entry.path,
+        type: entry.type === 'tree' ? 'dir' : entry.type === 'commit' ? 'submodule' : 'file',
+        size: entry.size,
+        sha: entry.sha,
+      }));
+
+    return {
+      type: 'tree',
+      path: prefix,
+      ref,
+      count: entries.length,
+      // GitHub also truncates trees of very large repositories
+      truncated: data.truncated || entries.length > MAX_TREE_ENTRIES,
+      entries: entries.slice(0, MAX_TREE_ENTRIES),
+    };
+  }
+
+  async listDirectory(args: GitHubFileArgs): Promise<any[]> {
+    const data = await this.getContent(args);
+    if (!Array.isArray(data)) {
+      throw new Error('Path is not a directory');
+    }
+
+    return data.map(formatDirectoryEntry);
+  }
+
+  /**
+   * List branches with their last commit and open pull request. The REST API
+   * needs one request per branch for commit dates, so this uses GraphQL.
+   */
+  async listBranches(args: GitHubRepoArgs): Promise<any[]> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const branches: any[] = [];
+    let after: string | null = null;
+
+    do {
+      const result: any = await this.octokit.graphql(BRANCHES_QUERY, {
+        owner: args.owner,
+        repo: args.repo,
+        after,
+      });
+      const refs = result.repository.refs;
+
+      for (const ref of refs.nodes) {
+        const pr = ref.associatedPullRequests.nodes[0];
+        branches.push({
+          name: ref.name,
+          lastCommitSha: ref.target?.oid,
+          lastCommitDate: ref.target?.committedDate,
+          lastCommitAuthor: ref.target?.author?.user?.login || ref.target?.author?.name,
+          openPullRequest: pr ? { number: pr.number, url: pr.url } : undefined,
+        });
+      }
+
+      after = refs.pageInfo.hasNextPage ? refs.pageInfo.endCursor : null;
+    } while (after && branches.length < MAX_ITEMS);
+
+    return branches;
+  }
+
+  async createBranch(args: GitHubCreateBranchArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const from = args.from || (await this.getRepository(args)).defaultBranch;
+    const { data: ref } = await this.octokit.git.getRef({
+      owner: args.owner,
+      repo: args.repo,
+      ref: `heads/${from}`,
+    });
+
+    const { data } = await this.octokit.git.createRef({
+      owner: args.owner,
+      repo: args.repo,
+      ref: `refs/heads/${args.branch}`,
+      sha: ref.object.sha,
+    });
+
+    return {
+      branch: args.branch,
+      from,
+      sha: data.object.sha,
+    };
+  }
+
+  async putFileContent(args: GitHubPutFileArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const { data } = await this.octokit.repos.createOrUpdateFileContents({
+      owner: args.owner,
+      repo: args.repo,
+      path: args.path,
+      message: args.message,
+      content: Buffer.from(args.content, 'utf-8').toString('base64'),
+      branch: args.branch,
+      sha: args.sha,
+    });
+
+    return {
+      path: data.content?.path,
+      sha: data.content?.sha,
+      commitSha: data.commit.sha,
+    };
+  }
+
+  /**
+   * Create a branch holding a single commit with all file changes and open a
+   * pull request for it. The commit is built with the Git data API, so the
+   * branch only appears once the whole change exists.
+   */
+  async proposeChange(args: GitHubProposeChangeArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    if (!args.files?.length) {
+      throw new Error('files must contain at least one change');
+    }
+
+    const { owner, repo } = args;
+    const base = args.base || (await this.getRepository(args)).defaultBranch;
+
+    const { data: baseRef } = await this.octokit.git.getRef({ owner, repo, ref: `heads/${base}` });
+    const { data: baseCommit } = await this.octokit.git.getCommit({
+      owner,
+      repo,
+      commit_sha: baseRef.object.sha,
+    });
+
+    // Edited files keep their mode, so executables stay executable
+    const modes = await this.getBlobModes(
+      args,
+      baseCommit,
+      args.files.filter(file => !file.delete).map(file => file.path),
+    );
+    const modeOf = (path: string) => (modes.get(path) || '100644') as BlobMode;
+
+    const tree = await Promise.all(args.files.map(async file => {
+      if (file.delete) {
+        return { path: file.path, mode: '100644' as const, type: 'blob' as const, sha: null };
+      }
+      if (file.content === undefined) {
+        throw new Error(`No content given for ${file.path}`);
+      }
+      if (file.encoding === 'base64') {
+        // Binary content has to be uploaded as a blob first
+        const { data: blob } = await this.octokit!.git.createBlob({
+          owner,
+          repo,
+          content: file.content,
+          encoding: 'base64',
+        });
+        return { path: file.path, mode: modeOf(file.path), type: 'blob' as const, sha: blob.sha };
+      }
+      return { path: file.path, mode: modeOf(file.path), type: 'blob' as const, content: file.content };
+    }));
+
+    const { data: newTree } = await this.octokit.git.createTree({
+      owner,
+      repo,
+      base_tree: baseCommit.tree.sha,
+      tree,
+    });
+
+    const { data: commit } = await this.octokit.git.createCommit({
+      owner,
+      repo,
+      message: args.message,
+      tree: newTree.sha,
+      parents: [baseCommit.sha],
+    });
+
+    try {
+      await this.octokit.git.createRef({ owner, repo, ref: `refs/heads/${args.branch}`, sha: commit.sha });
+    } catch (error: any) {
+      if (error.status === 422) {
+        throw new Error(`Branch already exists: ${args.branch}`);
+      }
+      throw error;
+    }
+
+    try {
+      const pr = await this.createPullRequest({
+        owner,
+        repo,
+        title: args.title,
+        body: args.body,
+        head: args.branch,
+        base,
+        draft: args.draft,
+      });
+
+      return {
+        ...pr,
+        branch: args.branch,
+        base,
+        commitSha: commit.sha,
+        files: args.files.map(file => ({ path: file.path, status: file.delete ? 'deleted' : 'written' })),
+      };
+    } catch (error) {
+      // Do not leave an orphaned branch behind when the PR cannot be opened
+      await this.octokit.git.deleteRef({ owner, repo, ref: `heads/${args.branch}` }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // Modes of existing files, read from the trees of the directories they are in
+  private async getBlobModes(
+    args: GitHubRepoArgs,
+    commit: { sha: string; tree: { sha: string } },
+    paths: string[],
+  ): Promise<Map<string, string>> {
+    const modes = new Map<string, string>();
+    const directories = new Set(paths.map(path => path.slice(0, Math.max(path.lastIndexOf('/'), 0))));
+
+    await Promise.all([...directories].map(async directory => {
+      try {
+        const { data } = await this.octokit!.git.getTree({
+          owner: args.owner,
+          repo: args.repo,
+          tree_sha: directory ? `${commit.sha}:${directory}` : commit.tree.sha,
+        });
+        for (const entry of data.tree) {
+          if (entry.type === 'blob') {
+            modes.set(directory ? `${directory}/${entry.path}` : entry.path!, entry.mode!);
+          }
+        }
+      } catch (error: any) {
+        // Files in new directories have no previous mode
+        if (error.status !== 404) {
+          throw error;
+        }
+      }
+    }));
+
+    return modes;
+  }
+
+  async search(args: GitHubSearchArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    const searchMethod = {
+      repositories: this.octokit.search.repos,
+      code: this.octokit.search.code,
+      issues: this.octokit.search.issuesAndPullRequests,
+      users: this.octokit.search.users,
+    }[args.type];
+
+    return this.paginate(searchMethod, { q: args.query }, args, item => item);
+  }
+
+  // Same query syntax as search, but items come back in the listIssues format
+  async searchIssues(args: GitHubSearchIssuesArgs): Promise<any> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not initialized');
+    }
+
+    return this.paginate(this.octokit.search.issuesAndPullRequests, { q: args.query }, args, formatIssue);
+  }
+
+  /**
+   * Fetch a page, or with `all` every page up to the item cap, from a list or
+   * search endpoint, along with the total number of matches.
+   */
+  private async paginate<T>(
+    method: any,
+    params: Record<string, any>,
+    args: GitHubPageArgs,
+    map: (item: any) => T,
+  ): Promise<GitHubPage<T>> {
+    const position = resolvePagePosition(args, 100);
+    const limit = args.all ? Math.min(args.maxItems || DEFAULT_MAX_ITEMS, MAX_ITEMS) : position.perPage;
+
+    const items: any[] = [];
+    let page = position.page;
+    let skip = position.skip;
+    let next: PagePosition | undefined;
+    let totalCount: number | undefined;
+
+    const pages = this.octokit!.paginate.iterator(method, {
+      ...params,
+      per_page: position.perPage,
+      page: position.page,
+    });
+
+    for await (const response of pages) {
+      // paginate normalizes search results to an array carrying total_count
+      const data: any = response.data;
+      if (page === position.page) {
+        totalCount = await this.countTotal(method, params, response, page, position.perPage);
+      }
+
+      const available = data.slice(skip);
+      const room = limit - items.length;
+      items.push(...available.slice(0, room));
+
+      if (available.length > room) {
+        next = { page, perPage: position.perPage, skip: skip + room };
+        break;
+      }
+
+      page++;
+      skip = 0;
+      if (linkPage(response.headers.link, 'next') === undefined) {
+        break;
+      }
+      if (items.length >= limit) {
+        next = { page, perPage: position.perPage, skip: 0 };
+        break;
+      }
+    }
+
+    return {
+      items: items.map(map),
+      totalCount,
+      nextCursor: next ? encodePageCursor(next) : undefined,
+    };
+  }
+
+  // List endpoints do not report totals, so derive one from the last page
+  private async countTotal(
+    method: any,
+    params: Record<string, any>,
+    response: any,
+    page: number,
+    perPage: number,
+  ): Promise<number | undefined> {
+    if (response.data.total_count !== undefined) {
+      return response.data.total_count;
+    }
+
+    const last = linkPage(response.headers.link, 'last');
+    if (last === undefined) {
+      // Already on the last page, unless the page is past the end
+      return response.data.length === 0 && page > 1 ? undefined : (page - 1) * perPage + response.data.length;
+    }
+
+    const { data } = await method({ ...params, per_page: perPage, page: last });
+    return (last - 1) * perPage + data.length;
+  }
+
+  getTools(): ToolDefinition[] {
+    return [
+      {
+        name: 'github_get_repo',
+        description: 'Get information about a GitHub repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+          },
+          required: ['owner', 'repo'],
+        },
+        handler: (args) => this.getRepository(args),
+      },
+      {
+        name: 'github_list_issues',
+        description: 'List issues in a GitHub repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            state: {
+              type: 'string',
+              enum: ['open', 'closed', 'all'],
+              description: 'Issue state',
+            },
+            labels: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Filter by labels',
+            },
+            assignee: {
+              type: 'string',
+              description: 'Filter by assignee',
+            },
+            creator: {
+              type: 'string',
+              description: 'Filter by creator',
+            },
+            ...PAGINATION_SCHEMA_PROPERTIES,
+          },
+          required: ['owner', 'repo'],
+        },
+        handler: (args) => this.listIssues(args),
+      },
+      {
+        name: 'github_create_issue',
+        description: 'Create a new issue in a GitHub repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            title: {
+              type: 'string',
+              description: 'Issue title',
+            },
+            body: {
               type: 'string',
               description: 'Issue body',
             },
@@ -348,8 +1374,179 @@ export class GitHubIntegration {
               description: 'Users to assign',
             },
           },
-          required: ['owner', 'repo', 'title'],
+          required: ['owner', 'repo', 'title'],
+        },
+        handler: (args) => this.createIssue(args),
+      },
+      {
+        name: 'github_update_issue',
+        description: 'Edit an issue: title, body, open or close it, assignees and milestone',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            issue_number: {
+              type: 'number',
+              description: 'Issue number',
+            },
+            title: {
+              type: 'string',
+              description: 'New title',
+            },
+            body: {
+              type: 'string',
+              description: 'New body',
+            },
+            state: {
+              type: 'string',
+              enum: ['open', 'closed'],
+              description: 'Open or close the issue',
+            },
+            state_reason: {
+              type: 'string',
+              enum: ['completed', 'not_planned', 'reopened'],
+              description: 'Why the state changed',
+            },
+            assignees: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Replace the assignees (empty array to unassign everyone)',
+            },
+            milestone: {
+              type: ['number', 'string', 'null'],
+              description: 'Milestone number or title, or null to clear it',
+            },
+          },
+          required: ['owner', 'repo', 'issue_number'],
+        },
+        handler: (args) => this.updateIssue(args),
+      },
+      {
+        name: 'github_add_issue_comment',
+        description: 'Comment on an issue or pull request',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            issue_number: {
+              type: 'number',
+              description: 'Issue number',
+            },
+            body: {
+              type: 'string',
+              description: 'Comment text (Markdown)',
+            },
+          },
+          required: ['owner', 'repo', 'issue_number', 'body'],
+        },
+        handler: (args) => this.addIssueComment(args),
+      },
+      {
+        name: 'github_list_issue_comments',
+        description: 'List comments on an issue or pull request',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            issue_number: {
+              type: 'number',
+              description: 'Issue number',
+            },
+            ...PAGINATION_SCHEMA_PROPERTIES,
+          },
+          required: ['owner', 'repo', 'issue_number'],
+        },
+        handler: (args) => this.listIssueComments(args),
+      },
+      {
+        name: 'github_update_issue_labels',
+        description: 'Add and remove labels on an issue or pull request',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            issue_number: {
+              type: 'number',
+              description: 'Issue number',
+            },
+            add: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Labels to add',
+            },
+            remove: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Labels to remove',
+            },
+          },
+          required: ['owner', 'repo', 'issue_number'],
+        },
+        handler: (args) => this.updateIssueLabels(args),
+      },
+      {
+        name: 'github_link_issue_to_pr',
+        description: 'Link an issue to a pull request so merging the PR closes the issue',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            issue_number: {
+              type: 'number',
+              description: 'Issue number',
+            },
+            pull_number: {
+              type: 'number',
+              description: 'Pull request number in owner/repo',
+            },
+            issueRepository: {
+              type: 'string',
+              description: 'owner/repo of the issue if it is in another repository',
+            },
+            keyword: {
+              type: 'string',
+              enum: ['Closes', 'Fixes', 'Resolves', 'Refs'],
+              description: 'Keyword to use (default: Closes); Refs only mentions the issue without closing it',
+            },
+          },
+          required: ['owner', 'repo', 'issue_number', 'pull_number'],
         },
+        handler: (args) => this.linkIssueToPullRequest(args),
       },
       {
         name: 'github_list_prs',
@@ -378,13 +1575,11 @@ export class GitHubIntegration {
               type: 'string',
               description: 'Filter by base branch',
             },
-            per_page: {
-              type: 'number',
-              description: 'Results per page',
-            },
+            ...PAGINATION_SCHEMA_PROPERTIES,
           },
           required: ['owner', 'repo'],
         },
+        handler: (args) => this.listPullRequests(args),
       },
       {
         name: 'github_create_pr',
@@ -423,10 +1618,360 @@ export class GitHubIntegration {
           },
           required: ['owner', 'repo', 'title', 'head', 'base'],
         },
+        handler: (args) => this.createPullRequest(args),
+      },
+      {
+        name: 'github_propose_change',
+        description: 'Commit file changes to a new branch in a single commit and open a pull request',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            branch: {
+              type: 'string',
+              description: 'New branch to create',
+            },
+            base: {
+              type: 'string',
+              description: 'Branch to start from and merge into (default: the default branch)',
+            },
+            message: {
+              type: 'string',
+              description: 'Commit message',
+            },
+            files: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  content: { type: 'string' },
+                  encoding: { type: 'string', enum: ['utf-8', 'base64'] },
+                  delete: { type: 'boolean' },
+                },
+                required: ['path'],
+              },
+              description: 'Files to add or replace (path and content) or delete (path and delete: true)',
+            },
+            title: {
+              type: 'string',
+              description: 'PR title',
+            },
+            body: {
+              type: 'string',
+              description: 'PR body',
+            },
+            draft: {
+              type: 'boolean',
+              description: 'Create as draft PR',
+            },
+          },
+          required: ['owner', 'repo', 'branch', 'message', 'files', 'title'],
+        },
+        handler: (args) => this.proposeChange(args),
+      },
+      {
+        name: 'github_get_pr_files',
+        description: 'List the files changed in a pull request with their patches',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            pull_number: {
+              type: 'number',
+              description: 'Pull request number',
+            },
+            ...PAGINATION_SCHEMA_PROPERTIES,
+          },
+          required: ['owner', 'repo', 'pull_number'],
+        },
+        handler: (args) => this.listPullRequestFiles(args),
+      },
+      {
+        name: 'github_get_pr_diff',
+        description: 'Get the unified diff of a pull request',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            pull_number: {
+              type: 'number',
+              description: 'Pull request number',
+            },
+            maxBytes: {
+              type: 'number',
+              description: `Truncate the diff after this many bytes (default: ${DEFAULT_DIFF_BYTES})`,
+            },
+          },
+          required: ['owner', 'repo', 'pull_number'],
+        },
+        handler: (args) => this.getPullRequestDiff(args),
+      },
+      {
+        name: 'github_list_pr_reviews',
+        description: 'List the reviews and line comments on a pull request',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            pull_number: {
+              type: 'number',
+              description: 'Pull request number',
+            },
+          },
+          required: ['owner', 'repo', 'pull_number'],
+        },
+        handler: (args) => this.listPullRequestReviews(args),
+      },
+      {
+        name: 'github_get_pr_checks',
+        description: 'Get the combined check run and commit status results for a pull request',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            pull_number: {
+              type: 'number',
+              description: 'Pull request number',
+            },
+          },
+          required: ['owner', 'repo', 'pull_number'],
+        },
+        handler: (args) => this.getPullRequestChecks(args),
+      },
+      {
+        name: 'github_create_review',
+        description: 'Approve, request changes on, or comment on a pull request, optionally with line comments',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            pull_number: {
+              type: 'number',
+              description: 'Pull request number',
+            },
+            event: {
+              type: 'string',
+              enum: ['APPROVE', 'REQUEST_CHANGES', 'COMMENT'],
+              description: 'Review action',
+            },
+            body: {
+              type: 'string',
+              description: 'Review summary',
+            },
+            comments: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  line: { type: 'number' },
+                  side: { type: 'string', enum: ['LEFT', 'RIGHT'] },
+                  start_line: { type: 'number' },
+                  body: { type: 'string' },
+                },
+                required: ['path', 'line', 'body'],
+              },
+              description: 'Line comments: line (and start_line for ranges) in the new file, or the old file with side LEFT',
+            },
+            commit_id: {
+              type: 'string',
+              description: 'Commit the comments refer to (default: the PR head)',
+            },
+          },
+          required: ['owner', 'repo', 'pull_number', 'event'],
+        },
+        handler: (args) => this.createReview(args),
+      },
+      {
+        name: 'github_list_workflow_runs',
+        description: 'List GitHub Actions workflow runs for a repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            workflow: {
+              type: ['string', 'number'],
+              description: 'Workflow file name (e.g. ci.yml) or ID',
+            },
+            branch: {
+              type: 'string',
+              description: 'Filter by branch',
+            },
+            event: {
+              type: 'string',
+              description: 'Filter by triggering event, e.g. push or pull_request',
+            },
+            status: {
+              type: 'string',
+              description: 'Filter by status or conclusion, e.g. in_progress, failure, success',
+            },
+            ...PAGINATION_SCHEMA_PROPERTIES,
+          },
+          required: ['owner', 'repo'],
+        },
+        handler: (args) => this.listWorkflowRuns(args),
+      },
+      {
+        name: 'github_list_run_jobs',
+        description: 'List the jobs of a workflow run with their steps and failing steps',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            run_id: {
+              type: 'number',
+              description: 'Workflow run ID',
+            },
+          },
+          required: ['owner', 'repo', 'run_id'],
+        },
+        handler: (args) => this.listWorkflowRunJobs(args),
+      },
+      {
+        name: 'github_get_job_log',
+        description: 'Get the last lines of a job log, limited to the failing step unless a step is given',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            job_id: {
+              type: 'number',
+              description: 'Job ID',
+            },
+            step: {
+              type: 'number',
+              description: 'Step number to show (default: the first failed step)',
+            },
+            lines: {
+              type: 'number',
+              description: `Number of lines to return (default: ${DEFAULT_LOG_LINES}, max: ${MAX_LOG_LINES})`,
+            },
+          },
+          required: ['owner', 'repo', 'job_id'],
+        },
+        handler: (args) => this.getJobLog(args),
+      },
+      {
+        name: 'github_rerun_failed_jobs',
+        description: 'Re-run the failed jobs of a workflow run',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            run_id: {
+              type: 'number',
+              description: 'Workflow run ID',
+            },
+          },
+          required: ['owner', 'repo', 'run_id'],
+        },
+        handler: (args) => this.rerunFailedJobs(args),
+      },
+      {
+        name: 'github_dispatch_workflow',
+        description: 'Trigger a workflow that has a workflow_dispatch trigger',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string',
+              description: 'Repository owner',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository name',
+            },
+            workflow: {
+              type: ['string', 'number'],
+              description: 'Workflow file name (e.g. deploy.yml) or ID',
+            },
+            ref: {
+              type: 'string',
+              description: 'Branch or tag to run on (default: the default branch)',
+            },
+            inputs: {
+              type: 'object',
+              description: 'Workflow inputs',
+            },
+          },
+          required: ['owner', 'repo', 'workflow'],
+        },
+        handler: (args) => this.dispatchWorkflow(args),
       },
       {
         name: 'github_get_file',
-        description: 'Get file content from a GitHub repository',
+        description: 'Get a file, list a directory, or list a directory tree recursively from a GitHub repository',
         inputSchema: {
           type: 'object',
           properties: {
@@ -440,15 +1985,37 @@ export class GitHubIntegration {
             },
             path: {
               type: 'string',
-              description: 'File path',
+              description: 'File or directory path ("" for the repository root)',
             },
             ref: {
               type: 'string',
               description: 'Branch, tag, or commit',
             },
+            recursive: {
+              type: 'boolean',
+              description: 'List every file and directory below path',
+            },
+            pattern: {
+              type: 'string',
+              description: 'Glob to filter entries: without a slash it matches file names (e.g. "*.sql"), otherwise paths relative to path (e.g. "src/**/*.ts")',
+            },
+            encoding: {
+              type: 'string',
+              enum: ['utf-8', 'base64'],
+              description: 'Force base64 output; binary files are always returned as base64',
+            },
+            startLine: {
+              type: 'number',
+              description: 'First line to return (1-based)',
+            },
+            endLine: {
+              type: 'number',
+              description: 'Last line to return (inclusive)',
+            },
           },
           required: ['owner', 'repo', 'path'],
         },
+        handler: (args) => this.getPath(args),
       },
       {
         name: 'github_search',
@@ -465,14 +2032,50 @@ export class GitHubIntegration {
               enum: ['repositories', 'code', 'issues', 'users'],
               description: 'Type of search',
             },
-            per_page: {
-              type: 'number',
-              description: 'Results per page',
-            },
+            ...PAGINATION_SCHEMA_PROPERTIES,
           },
           required: ['query', 'type'],
         },
+        handler: (args) => this.search(args),
       },
     ];
   }
-}
\ No newline at end of file
+}
+
+function formatIssue(issue: any): any {
+  return {
+    number: issue.number,
+    title: issue.title,
+    state: issue.state,
+    body: issue.body,
+    user: issue.user?.login,
+    labels: issue.labels?.map((l: any) => (typeof l === 'string' ? l : l.name)),
+    assignees: issue.assignees?.map((a: any) => a.login),
+    // The issues API returns pull requests too
+    isPullRequest: !!issue.pull_request,
+    createdAt: issue.created_at,
+    updatedAt: issue.updated_at,
+    url: issue.html_url,
+  };
+}
+
+function formatDirectoryEntry(entry: any): any {
+  return {
+    name: entry.name,
+    path: entry.path,
+    type: entry.type,
+    size: entry.size,
+    sha: entry.sha,
+  };
+}
+
+function formatComment(comment: any): any {
+  return {
+    id: comment.id,
+    user: comment.user?.login,
+    body: comment.body,
+    createdAt: comment.created_at,
+    updatedAt: comment.updated_at,
+    url: comment.html_url,
+  };
+}
@@ -0,0 +1,259 @@
+import { Integration, ToolDefinition } from './types.js';
+import { GitHubIntegration } from './github.js';
+import { N8nIntegration } from './n8n.js';
+
+const DEFAULT_OWNER = 'anandroid';
+const DEFAULT_REPO = 'n8n-sync';
+
+// Fields n8n rewrites on every save or import; they never indicate real drift
+const VOLATILE_WORKFLOW_FIELDS = [
+  'id',
+  'versionId',
+  'createdAt',
+  'updatedAt',
+  'meta',
+  'pinData',
+  'staticData',
+  'triggerCount',
+  'shared',
+  'tags',
+  'isArchived',
+];
+const VOLATILE_NODE_FIELDS = ['id', 'position', 'webhookId'];
+
+// Cap on reported field paths per node so one rewritten node cannot flood the result
+const MAX_CHANGED_PATHS = 20;
+
+export interface N8nDriftCheckArgs {
+  workflowId: string;
+  path: string;
+  owner?: string;
+  repo?: string;
+  ref?: string;
+  openPullRequest?: boolean;
+  branch?: string;
+  base?: string;
+}
+
+interface NodeChange {
+  node: string;
+  paths: string[];
+}
+
+export class N8nDriftIntegration implements Integration {
+  readonly name = 'n8n-drift';
+  private github: GitHubIntegration;
+  private n8n: N8nIntegration;
+
+  constructor(github: GitHubIntegration, n8n: N8nIntegration) {
+    this.github = github;
+    this.n8n = n8n;
+  }
+
+  async initialize(): Promise<boolean> {
+    // Relies on the GitHub and n8n integrations, which are initialized on their own
+    return true;
+  }
+
+  isAvailable(): boolean {
+    return this.github.isAvailable() && this.n8n.isAvailable();
+  }
+
+  async checkDrift(args: N8nDriftCheckArgs): Promise<any> {
+    const owner = args.owner || DEFAULT_OWNER;
+    const repo = args.repo || DEFAULT_REPO;
+
+    const file = await this.github.getFileContent({ owner, repo, path: args.path, ref: args.ref });
+    const live = await this.n8n.getWorkflow({ id: args.workflowId });
+
+    let stored: any;
+    try {
+      stored = JSON.parse(file.content);
+    } catch {
+      throw new Error(`${args.path} is not valid workflow JSON`);
+    }
+
+    const diff = diffWorkflows(normalizeWorkflow(stored), normalizeWorkflow(live));
+    const drifted = diff.added.length > 0
+      || diff.removed.length > 0
+      || diff.changed.length > 0
+      || diff.connectionsChanged
+      || diff.settingsChanged;
+
+    const result: any = {
+      workflowId: args.workflowId,
+      workflowName: live.name,
+      source: `${owner}/${repo}/${args.path}${args.ref ? `@${args.ref}` : ''}`,
+      drifted,
+      ...diff,
+    };
+
+    if (drifted && args.openPullRequest) {
+      // The drift report is still useful when the PR cannot be opened
+      try {
+        result.pullRequest = await this.openSyncPullRequest(owner, repo, args, stored, live);
+      } catch (error: any) {
+        result.pullRequestError = error.message;
+      }
+    }
+
+    return result;
+  }
+
+  // Commit the live workflow over the stored one and open a PR for review
+  private async openSyncPullRequest(
+    owner: string,
+    repo: string,
+    args: N8nDriftCheckArgs,
+    stored: any,
+    live: any,
+  ): Promise<any> {
+    // ref may be a tag or commit, so the PR targets a branch of its own
+    const base = args.base || (await this.github.getRepository({ owner, repo })).defaultBranch;
+    const { sha } = await this.github.getFileContent({ owner, repo, path: args.path, ref: base });
+    const branch = args.branch || `n8n-drift/${args.workflowId}-${Date.now()}`;
+
+    // Keep the same top-level layout as the stored export so the diff stays readable
+    const content = Object.fromEntries(
+      Object.keys(stored).map(key => [key, key in live ? live[key] : stored[key]]),
+    );
+
+    await this.github.createBranch({ owner, repo, branch, from: base });
+    const commit = await this.github.putFileContent({
+      owner,
+      repo,
+      path: args.path,
+      content: `${JSON.stringify(content, null, 2)}\n`,
+      message: `Sync ${live.name} from live n8n instance`,
+      branch,
+      sha,
+    });
+
+    const pr = await this.github.createPullRequest({
+      owner,
+      repo,
+      title: `Sync n8n workflow "${live.name}" with live instance`,
+      body: `The deployed n8n workflow \`${args.workflowId}\` has diverged from \`${args.path}\`. `
+        + 'This PR replaces the stored version with the live one so the change can be reviewed.',
+      head: branch,
+      base,
+    });
+
+    return { ...pr, branch, commitSha: commit.commitSha };
+  }
+
+  getTools(): ToolDefinition[] {
+    return [
+      {
+        name: 'n8n_check_drift',
+        description: 'Compare a deployed n8n workflow with its version in n8n-sync and report node-level differences',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            workflowId: {
+              type: 'string',
+              description: 'ID of the deployed workflow',
+            },
+            path: {
+              type: 'string',
+              description: 'Workflow file path in the repository (e.g., "pulse_background_processing.json")',
+            },
+            owner: {
+              type: 'string',
+              description: `Repository owner (default: ${DEFAULT_OWNER})`,
+            },
+            repo: {
+              type: 'string',
+              description: `Repository name (default: ${DEFAULT_REPO})`,
+            },
+            ref: {
+              type: 'string',
+              description: 'Branch, tag, or commit to compare against (default: default branch)',
+            },
+            openPullRequest: {
+              type: 'boolean',
+              description: 'Open a PR that updates the repository with the live version when drift is found',
+            },
+            branch: {
+              type: 'string',
+              description: 'Branch name for the PR (default: generated)',
+            },
+            base: {
+              type: 'string',
+              description: 'Branch the PR targets (default: default branch)',
+            },
+          },
+          required: ['workflowId', 'path'],
+        },
+        handler: (args) => this.checkDrift(args),
+      },
+    ];
+  }
+}
+
+function normalizeWorkflow(workflow: any): any {
+  const normalized = omit(workflow, VOLATILE_WORKFLOW_FIELDS);
+
+  normalized.nodes = (workflow.nodes || []).map((node: any) => {
+    const clean = omit(node, VOLATILE_NODE_FIELDS);
+    // Credential IDs differ between instances; only the credential names matter
+    if (clean.credentials) {
+      clean.credentials = Object.fromEntries(
+        Object.entries(clean.credentials).map(([type, credential]: [string, any]) => [type, credential?.name]),
+      );
+    }
+    return clean;
+  });
+
+  return normalized;
+}
+
+function diffWorkflows(stored: any, live: any) {
+  const storedNodes = new Map<string, any>(stored.nodes.map((node: any) => [node.name, node]));
+  const liveNodes = new Map<string, any>(live.nodes.map((node: any) => [node.name, node]));
+
+  const added = [...liveNodes.keys()].filter(name => !storedNodes.has(name));
+  const removed = [...storedNodes.keys()].filter(name => !liveNodes.has(name));
+  const changed: NodeChange[] = [];
+
+  for (const [name, storedNode] of storedNodes) {
+    const liveNode = liveNodes.get(name);
+    if (!liveNode) {
+      continue;
+    }
+
+    const paths = changedPaths(storedNode, liveNode);
+    if (paths.length > 0) {
+      changed.push({ node: name, paths: paths.slice(0, MAX_CHANGED_PATHS) });
+    }
+  }
+
+  return {
+    added,
+    removed,
+    changed,
+    connectionsChanged: changedPaths(stored.connections || {}, live.connections || {}).length > 0,
+    settingsChanged: changedPaths(stored.settings || {}, live.settings || {}).length > 0,
+  };
+}
+
+function changedPaths(a: any, b: any, prefix = ''): string[] {
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].flatMap(key => changedPaths(a[key], b[key], prefix ? `${prefix}.${key}` : key));
+  }
+
+  if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+    return a.flatMap((item, index) => changedPaths(item, b[index], `${prefix}[${index}]`));
+  }
+
+  return JSON.stringify(a) === JSON.stringify(b) ? [] : [prefix || '(root)'];
+}
+
+function isPlainObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function omit(value: Record<string, any>, keys: string[]): Record<string, any> {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !keys.includes(key)));
+}
@@ -0,0 +1,372 @@
+import { SecretsManager } from '../secrets.js';
+import { Integration, ToolDefinition } from './types.js';
+
+const WEBHOOK_NODE_TYPE = 'n8n-nodes-base.webhook';
+
+export interface N8nListWorkflowsArgs {
+  active?: boolean;
+  tags?: string[];
+  name?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface N8nWorkflowArgs {
+  id: string;
+}
+
+export interface N8nListExecutionsArgs {
+  workflowId?: string;
+  status?: 'success' | 'error' | 'waiting' | 'running' | 'canceled';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface N8nExecutionArgs {
+  id: string;
+}
+
+export interface N8nTriggerWorkflowArgs {
+  id: string;
+  payload?: Record<string, any>;
+  test?: boolean;
+}
+
+export class N8nIntegration implements Integration {
+  readonly name = 'n8n';
+  private baseUrl?: string;
+  private apiKey?: string;
+  private secretsManager: SecretsManager;
+
+  constructor(secretsManager: SecretsManager) {
+    this.secretsManager = secretsManager;
+  }
+
+  async initialize(): Promise<boolean> {
+    const config = this.secretsManager.getN8nConfig();
+    if (!config?.url || !config?.apiKey) {
+      return false;
+    }
+
+    this.baseUrl = config.url.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+
+    return true;
+  }
+
+  isAvailable(): boolean {
+    return !!(this.baseUrl && this.apiKey);
+  }
+
+  async listWorkflows(args: N8nListWorkflowsArgs): Promise<any> {
+    const result = await this.request('GET', '/workflows', {
+      active: args.active,
+      tags: args.tags?.join(','),
+      name: args.name,
+      limit: args.limit || 50,
+      cursor: args.cursor,
+    });
+
+    return {
+      workflows: result.data.map((workflow: any) => ({
+        id: workflow.id,
+        name: workflow.name,
+        active: workflow.active,
+        tags: workflow.tags?.map((tag: any) => tag.name),
+        nodeCount: workflow.nodes?.length,
+        createdAt: workflow.createdAt,
+        updatedAt: workflow.updatedAt,
+      })),
+      nextCursor: result.nextCursor || null,
+    };
+  }
+
+  async getWorkflow(args: N8nWorkflowArgs): Promise<any> {
+    return this.request('GET', `/workflows/${encodeURIComponent(args.id)}`);
+  }
+
+  async listExecutions(args: N8nListExecutionsArgs): Promise<any> {
+    const result = await this.request('GET', '/executions', {
+      workflowId: args.workflowId,
+      status: args.status,
+      limit: args.limit || 20,
+      cursor: args.cursor,
+    });
+
+    return {
+      executions: result.data.map((execution: any) => ({
+        id: execution.id,
+        workflowId: execution.workflowId,
+        status: execution.status,
+        mode: execution.mode,
+        startedAt: execution.startedAt,
+        stoppedAt: execution.stoppedAt,
+        retryOf: execution.retryOf || undefined,
+      })),
+      nextCursor: result.nextCursor || null,
+    };
+  }
+
+  async getExecution(args: N8nExecutionArgs): Promise<any> {
+    const execution = await this.request('GET', `/executions/${encodeURIComponent(args.id)}`, {
+      includeData: true,
+    });
+
+    const resultData = execution.data?.resultData || {};
+    const runData: Record<string, any[]> = resultData.runData || {};
+
+    // Collect every node run that ended with an error
+    const failedNodes = Object.entries(runData).flatMap(([node, runs]) =>
+      runs
+        .filter(run => run.error)
+        .map(run => ({
+          node,
+          message: run.error.message,
+          description: run.error.description || undefined,
+          startedAt: run.startTime ? new Date(run.startTime).toISOString() : undefined,
+        })),
+    );
+
+    return {
+      id: execution.id,
+      workflowId: execution.workflowId,
+      status: execution.status,
+      mode: execution.mode,
+      startedAt: execution.startedAt,
+      stoppedAt: execution.stoppedAt,
+      lastNodeExecuted: resultData.lastNodeExecuted,
+      error: resultData.error
+        ? { message: resultData.error.message, node: resultData.error.node?.name }
+        : undefined,
+      failedNodes,
+      nodesExecuted: Object.keys(runData),
+    };
+  }
+
+  async activateWorkflow(args: N8nWorkflowArgs): Promise<any> {
+    const workflow = await this.request('POST', `/workflows/${encodeURIComponent(args.id)}/activate`);
+    return { id: workflow.id, name: workflow.name, active: workflow.active };
+  }
+
+  async deactivateWorkflow(args: N8nWorkflowArgs): Promise<any> {
+    const workflow = await this.request('POST', `/workflows/${encodeURIComponent(args.id)}/deactivate`);
+    return { id: workflow.id, name: workflow.name, active: workflow.active };
+  }
+
+  async triggerWorkflow(args: N8nTriggerWorkflowArgs): Promise<any> {
+    // The public API cannot start executions, so runs go through the
+    // workflow's webhook trigger
+    const workflow = await this.getWorkflow({ id: args.id });
+    const webhook = workflow.nodes?.find((node: any) => node.type === WEBHOOK_NODE_TYPE && !node.disabled);
+    if (!webhook) {
+      throw new Error(`Workflow ${args.id} has no webhook trigger to run it with`);
+    }
+
+    const method = (webhook.parameters?.httpMethod || 'GET').toUpperCase();
+    const path = webhook.parameters?.path || webhook.webhookId;
+    const url = `${this.baseUrl}/${args.test ? 'webhook-test' : 'webhook'}/${path}`;
+
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: method === 'GET' ? undefined : JSON.stringify(args.payload || {}),
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`n8n webhook error: ${response.status} ${text}`);
+    }
+
+    return {
+      workflowId: args.id,
+      status: response.status,
+      response: parseJson(text),
+    };
+  }
+
+  private async request(method: string, path: string, query?: Record<string, any>): Promise<any> {
+    if (!this.baseUrl || !this.apiKey) {
+      throw new Error('n8n client not initialized');
+    }
+
+    const url = new URL(`${this.baseUrl}/api/v1${path}`);
+    for (const [key, value] of Object.entries(query || {})) {
+      if (value !== undefined && value !== null && value !== '') {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'X-N8N-API-KEY': this.apiKey,
+        Accept: 'application/json',
+      },
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      const body = parseJson(text);
+      throw new Error(`n8n API error: ${response.status} ${body?.message || text}`);
+    }
+
+    return parseJson(text);
+  }
+
+  getTools(): ToolDefinition[] {
+    return [
+      {
+        name: 'n8n_list_workflows',
+        description: 'List n8n workflows',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            active: {
+              type: 'boolean',
+              description: 'Filter by active state',
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Filter by tag names',
+            },
+            name: {
+              type: 'string',
+              description: 'Filter by workflow name',
+            },
+            limit: {
+              type: 'number',
+              description: 'Results per page (default: 50)',
+            },
+            cursor: {
+              type: 'string',
+              description: 'nextCursor from a previous call',
+            },
+          },
+        },
+        handler: (args) => this.listWorkflows(args),
+      },
+      {
+        name: 'n8n_get_workflow',
+        description: 'Get the full definition of an n8n workflow',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Workflow ID',
+            },
+          },
+          required: ['id'],
+        },
+        handler: (args) => this.getWorkflow(args),
+      },
+      {
+        name: 'n8n_list_executions',
+        description: 'List recent n8n executions',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            workflowId: {
+              type: 'string',
+              description: 'Only executions of this workflow',
+            },
+            status: {
+              type: 'string',
+              enum: ['success', 'error', 'waiting', 'running', 'canceled'],
+              description: 'Filter by execution status',
+            },
+            limit: {
+              type: 'number',
+              description: 'Results per page (default: 20)',
+            },
+            cursor: {
+              type: 'string',
+              description: 'nextCursor from a previous call',
+            },
+          },
+        },
+        handler: (args) => this.listExecutions(args),
+      },
+      {
+        name: 'n8n_get_execution',
+        description: 'Get an n8n execution with its error and failed nodes',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Execution ID',
+            },
+          },
+          required: ['id'],
+        },
+        handler: (args) => this.getExecution(args),
+      },
+      {
+        name: 'n8n_activate_workflow',
+        description: 'Activate an n8n workflow',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Workflow ID',
+            },
+          },
+          required: ['id'],
+        },
+        handler: (args) => this.activateWorkflow(args),
+      },
+      {
+        name: 'n8n_deactivate_workflow',
+        description: 'Deactivate an n8n workflow',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Workflow ID',
+            },
+          },
+          required: ['id'],
+        },
+        handler: (args) => this.deactivateWorkflow(args),
+      },
+      {
+        name: 'n8n_trigger_workflow',
+        description: 'Run an n8n workflow through its webhook trigger',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Workflow ID',
+            },
+            payload: {
+              type: 'object',
+              description: 'JSON body sent to the webhook',
+            },
+            test: {
+              type: 'boolean',
+              description: 'Use the test webhook URL (workflow must be listening in the editor)',
+            },
+          },
+          required: ['id'],
+        },
+        handler: (args) => this.triggerWorkflow(args),
+      },
+    ];
+  }
+}
+
+function parseJson(text: string): any {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
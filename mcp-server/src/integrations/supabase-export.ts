@@ -0,0 +1,153 @@
+import { createWriteStream } from 'fs';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Writable } from 'stream';
+import { FilterCondition, SupabaseFilter } from './supabase-filter.js';
+
+export type ExportFormat = 'jsonl' | 'csv';
+
+export interface KeysetCursor {
+  column: string;
+  value: any;
+  ascending: boolean;
+  /** Unique column breaking ties on the sort column, and its last seen value */
+  key: { column: string; value: any };
+}
+
+// Cursors are opaque to callers but just encode the last seen sort and key values
+export function encodeCursor(cursor: KeysetCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): KeysetCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof decoded.column !== 'string' || typeof decoded.key?.column !== 'string') {
+      throw new Error();
+    }
+    return {
+      column: decoded.column,
+      value: decoded.value,
+      ascending: decoded.ascending !== false,
+      key: { column: decoded.key.column, value: decoded.key.value },
+    };
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+}
+
+/**
+ * Filter for the rows after a cursor, for results ordered by the cursor column
+ * and then by its key ascending. Nulls sort last ascending and first
+ * descending, as they do by default in Postgres.
+ */
+export function keysetFilter(cursor: KeysetCursor): SupabaseFilter {
+  const { column, value, ascending, key } = cursor;
+  const after: FilterCondition = { operator: ascending ? 'gt' : 'lt', value };
+  const keyAfter: FilterCondition = { operator: 'gt', value: key.value };
+
+  // A unique sort column has no ties to break
+  if (key.column === column) {
+    if (value === null) {
+      throw new Error(`Cannot page past a null value in unique column ${column}`);
+    }
+    return ascending ? { or: [{ [column]: after }, { [column]: null }] } : { [column]: after };
+  }
+
+  if (value === null) {
+    const tied: SupabaseFilter = { [column]: null, [key.column]: keyAfter };
+    return ascending ? tied : { or: [tied, { not: { [column]: null } }] };
+  }
+
+  const branches: SupabaseFilter[] = [
+    { [column]: after },
+    { [column]: { operator: 'eq', value }, [key.column]: keyAfter },
+  ];
+  if (ascending) {
+    branches.push({ [column]: null });
+  }
+  return { or: branches };
+}
+
+/** Serializes pages of rows into JSONL or CSV, emitting a CSV header once. */
+export class RowSerializer {
+  private columns?: string[];
+
+  constructor(private format: ExportFormat) {}
+
+  serialize(rows: Record<string, any>[]): string {
+    if (this.format === 'jsonl') {
+      return rows.map(row => `${JSON.stringify(row)}\n`).join('');
+    }
+
+    let output = '';
+    if (!this.columns && rows.length > 0) {
+      this.columns = Object.keys(rows[0]);
+      output += `${this.columns.map(csvCell).join(',')}\n`;
+    }
+
+    for (const row of rows) {
+      output += `${this.columns!.map(column => csvCell(row[column])).join(',')}\n`;
+    }
+    return output;
+  }
+}
+
+/** Writes export output to a stream, respecting backpressure. */
+export class StreamExportWriter {
+  constructor(protected stream?: Writable) {}
+
+  async write(chunk: string): Promise<void> {
+    if (!chunk) {
+      return;
+    }
+    // Respect backpressure so large exports do not pile up in memory
+    if (!this.stream!.write(chunk)) {
+      await new Promise<void>(resolve => this.stream!.once('drain', () => resolve()));
+    }
+  }
+
+  /** Finish the stream; for uploads this resolves once the object is committed. */
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.stream!.once('error', reject);
+      this.stream!.once('finish', () => resolve());
+      this.stream!.end();
+    });
+  }
+
+  /** Abandon the output, e.g. so a failed upload never creates the object. */
+  abort(error: Error): void {
+    this.stream?.destroy(error);
+  }
+}
+
+/** Appends export output to a local file, refusing to clobber existing files. */
+export class LocalExportWriter extends StreamExportWriter {
+  readonly path: string;
+
+  constructor(filePath: string) {
+    super();
+    this.path = path.resolve(filePath);
+  }
+
+  async open(overwrite: boolean): Promise<void> {
+    await fs.mkdir(path.dirname(this.path), { recursive: true });
+    const stream = createWriteStream(this.path, { flags: overwrite ? 'w' : 'wx' });
+    await new Promise<void>((resolve, reject) => {
+      stream.once('open', () => resolve());
+      stream.once('error', (error: any) => {
+        reject(error.code === 'EEXIST' ? new Error(`File already exists: ${this.path}`) : error);
+      });
+    });
+    this.stream = stream;
+  }
+}
+
+function csvCell(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,380 @@
+/**
+ * Filter language shared by supabase_query, supabase_update and supabase_delete.
+ *
+ * A filter is an object whose keys are column names (JSON paths such as
+ * `metadata->>source` work too) or one of the group keys `and`, `or`, `not`:
+ *
+ *   { status: 'active' }                                  equality
+ *   { deleted_at: null }                                  IS NULL
+ *   { score: { operator: 'gte', value: 10 } }             comparison
+ *   { or: [{ status: 'new' }, { priority: { operator: 'gt', value: 3 } }] }
+ *   { not: { tags: { operator: 'contains', value: ['spam'] } } }
+ *
+ * Sibling keys are combined with AND. Unknown operators are rejected.
+ */
+
+export const FILTER_OPERATORS = [
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'like',
+  'ilike',
+  'in',
+  'is',
+  'between',
+  'contains',
+  'containedBy',
+  'overlaps',
+  'rangeGt',
+  'rangeGte',
+  'rangeLt',
+  'rangeLte',
+  'rangeAdjacent',
+  'textSearch',
+] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export interface FilterCondition {
+  operator: FilterOperator;
+  value?: any;
+  /** textSearch only: text search configuration and query parser */
+  options?: { config?: string; type?: 'plain' | 'phrase' | 'websearch' };
+}
+
+export type FilterValue = string | number | boolean | null | FilterCondition;
+
+export interface SupabaseFilter {
+  and?: SupabaseFilter[];
+  or?: SupabaseFilter[];
+  not?: SupabaseFilter;
+  [column: string]: FilterValue | SupabaseFilter | SupabaseFilter[] | undefined;
+}
+
+export const FILTER_DESCRIPTION = 'Filter conditions: { column: value }, { column: { operator, value } } '
+  + `with operator one of ${FILTER_OPERATORS.join(', ')}, and nested { and: [...] }, { or: [...] }, { not: {...} } groups. `
+  + 'Columns may be JSON paths such as "metadata->>source".';
+
+// PostgREST operator names used inside logic trees (or=(...), and(...))
+const POSTGREST_OPERATORS: Record<string, string> = {
+  eq: 'eq',
+  neq: 'neq',
+  gt: 'gt',
+  gte: 'gte',
+  lt: 'lt',
+  lte: 'lte',
+  like: 'like',
+  ilike: 'ilike',
+  in: 'in',
+  is: 'is',
+  contains: 'cs',
+  containedBy: 'cd',
+  overlaps: 'ov',
+  rangeGt: 'sr',
+  rangeGte: 'nxl',
+  rangeLt: 'sl',
+  rangeLte: 'nxr',
+  rangeAdjacent: 'adj',
+};
+
+const TEXT_SEARCH_OPERATORS: Record<string, string> = {
+  plain: 'plfts',
+  phrase: 'phfts',
+  websearch: 'wfts',
+};
+
+/**
+ * Apply a filter to a postgrest-js filter builder. Top-level column conditions
+ * use the builder methods directly; groups are sent as PostgREST logic trees.
+ */
+export function applyFilter<T>(query: T, filter: SupabaseFilter | undefined): T {
+  let builder: any = query;
+
+  for (const [key, value] of Object.entries(filter || {})) {
+    if (value === undefined) {
+      continue;
+    }
+
+    switch (key) {
+      case 'and':
+        for (const child of asFilterList(key, value)) {
+          // Same rule as serialized groups: an empty child would silently match everything
+          if (isEmptyFilter(child)) {
+            throw new Error('Filter groups must contain at least one condition');
+          }
+          builder = applyFilter(builder, child);
+        }
+        break;
+      case 'or':
+        builder = builder.or(asFilterList(key, value).map(child => serializeGroup(child)).join(','));
+        break;
+      case 'not':
+        // A single-branch OR is the only way to negate a whole group at top level
+        builder = builder.or(serializeNegation(asFilter(key, value)));
+        break;
+      default:
+        builder = applyCondition(builder, key, toCondition(key, value));
+    }
+  }
+
+  return builder;
+}
+
+/**
+ * True when the filter would apply no conditions and so match every row. `and`
+ * groups only add their children's conditions, so they are checked recursively.
+ */
+export function isEmptyFilter(filter: SupabaseFilter | undefined): boolean {
+  return Object.entries(filter || {}).every(([key, value]) =>
+    value === undefined
+    || (key === 'and' && Array.isArray(value) && value.every(child => isEmptyFilter(child))));
+}
+
+// Operators Realtime understands in postgres_changes filters
+const REALTIME_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in'];
+
+/**
+ * Convert a filter to the `column=op.value` form used by Realtime
+ * postgres_changes subscriptions, which only support a single condition.
+ */
+export function toRealtimeFilter(filter: SupabaseFilter | undefined): string | undefined {
+  const entries = Object.entries(filter || {}).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const [column, value] = entries[0];
+  if (entries.length > 1 || ['and', 'or', 'not'].includes(column)) {
+    throw new Error('Realtime filters support a single column condition');
+  }
+
+  const { operator, value: operand } = toCondition(column, value);
+  if (!REALTIME_OPERATORS.includes(operator)) {
+    throw new Error(`Operator "${operator}" is not supported by Realtime; use one of ${REALTIME_OPERATORS.join(', ')}`);
+  }
+
+  if (operator === 'in') {
+    return `${column}=in.(${requireArray(column, operator, operand).map(item => quote(item)).join(',')})`;
+  }
+  return `${column}=${operator}.${operand}`;
+}
+
+function applyCondition(builder: any, column: string, condition: FilterCondition): any {
+  const { operator, value } = condition;
+
+  switch (operator) {
+    case 'eq':
+      return builder.eq(column, value);
+    case 'neq':
+      return builder.neq(column, value);
+    case 'gt':
+      return builder.gt(column, value);
+    case 'gte':
+      return builder.gte(column, value);
+    case 'lt':
+      return builder.lt(column, value);
+    case 'lte':
+      return builder.lte(column, value);
+    case 'like':
+      return builder.like(column, value);
+    case 'ilike':
+      return builder.ilike(column, value);
+    case 'in':
+      return builder.in(column, requireArray(column, operator, value));
+    case 'is':
+      return builder.is(column, requireIsValue(column, value));
+    case 'between': {
+      const [from, to] = requireRange(column, value);
+      return builder.gte(column, from).lte(column, to);
+    }
+    case 'contains':
+      return builder.contains(column, value);
+    case 'containedBy':
+      return builder.containedBy(column, value);
+    case 'overlaps':
+      return builder.overlaps(column, value);
+    case 'rangeGt':
+      return builder.rangeGt(column, value);
+    case 'rangeGte':
+      return builder.rangeGte(column, value);
+    case 'rangeLt':
+      return builder.rangeLt(column, value);
+    case 'rangeLte':
+      return builder.rangeLte(column, value);
+    case 'rangeAdjacent':
+      return builder.rangeAdjacent(column, value);
+    case 'textSearch':
+      return builder.textSearch(column, String(value), {
+        config: condition.options?.config,
+        type: condition.options?.type,
+      });
+    default:
+      throw new Error(`Unknown filter operator "${operator}" for column ${column}`);
+  }
+}
+
+// Serialize a filter object into the body of a PostgREST and(...) group
+function serializeGroup(filter: SupabaseFilter): string {
+  const parts = serializeConditions(filter);
+  return parts.length === 1 ? parts[0] : `and(${parts.join(',')})`;
+}
+
+// PostgREST only takes a leading `not.` on and(...)/or(...) groups; a single
+// condition is negated after its column name, as in `status.not.eq.new`
+function serializeNegation(filter: SupabaseFilter): string {
+  const parts = serializeConditions(filter);
+  const entries = Object.entries(filter).filter(([, value]) => value !== undefined);
+
+  if (entries.length === 1 && !['and', 'or', 'not'].includes(entries[0][0])) {
+    const [column] = entries[0];
+    // between is already serialized as an and(...) group
+    if (parts[0].startsWith(`${column}.`)) {
+      return `${column}.not.${parts[0].slice(column.length + 1)}`;
+    }
+  }
+
+  const group = parts.length === 1 && /^(and|or)\(/.test(parts[0]) ? parts[0] : `and(${parts.join(',')})`;
+  return `not.${group}`;
+}
+
+function serializeConditions(filter: SupabaseFilter): string[] {
+  const parts: string[] = [];
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    switch (key) {
+      case 'and':
+        parts.push(`and(${asFilterList(key, value).map(child => serializeGroup(child)).join(',')})`);
+        break;
+      case 'or':
+        parts.push(`or(${asFilterList(key, value).map(child => serializeGroup(child)).join(',')})`);
+        break;
+      case 'not':
+        parts.push(serializeNegation(asFilter(key, value)));
+        break;
+      default:
+        parts.push(serializeCondition(key, toCondition(key, value)));
+    }
+  }
+
+  if (parts.length === 0) {
+    throw new Error('Filter groups must contain at least one condition');
+  }
+
+  return parts;
+}
+
+function serializeCondition(column: string, condition: FilterCondition): string {
+  const { operator, value } = condition;
+
+  switch (operator) {
+    case 'in':
+      return `${column}.in.(${requireArray(column, operator, value).map(item => quote(item)).join(',')})`;
+    case 'is':
+      return `${column}.is.${requireIsValue(column, value)}`;
+    case 'between': {
+      const [from, to] = requireRange(column, value);
+      return `and(${column}.gte.${quote(from)},${column}.lte.${quote(to)})`;
+    }
+    case 'contains':
+    case 'containedBy':
+    case 'overlaps':
+      return `${column}.${POSTGREST_OPERATORS[operator]}.${serializeCollection(value)}`;
+    case 'textSearch': {
+      const op = TEXT_SEARCH_OPERATORS[condition.options?.type || ''] || 'fts';
+      const config = condition.options?.config ? `(${condition.options.config})` : '';
+      return `${column}.${op}${config}.${quote(value)}`;
+    }
+    default: {
+      const op = POSTGREST_OPERATORS[operator];
+      if (!op) {
+        throw new Error(`Unknown filter operator "${operator}" for column ${column}`);
+      }
+      return `${column}.${op}.${quote(value)}`;
+    }
+  }
+}
+
+function toCondition(column: string, value: unknown): FilterCondition {
+  if (value === null) {
+    return { operator: 'is', value: null };
+  }
+
+  if (Array.isArray(value)) {
+    throw new Error(`Filter for column ${column} must be a value or { operator, value }; use the "in" operator for lists`);
+  }
+
+  if (typeof value === 'object') {
+    const condition = value as FilterCondition;
+    if (!('operator' in condition)) {
+      throw new Error(`Filter for column ${column} must be a value or { operator, value }`);
+    }
+    if (!FILTER_OPERATORS.includes(condition.operator)) {
+      throw new Error(`Unknown filter operator "${condition.operator}" for column ${column}`);
+    }
+    return condition;
+  }
+
+  return { operator: 'eq', value };
+}
+
+function asFilter(key: string, value: unknown): SupabaseFilter {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`"${key}" expects a filter object`);
+  }
+  return value as SupabaseFilter;
+}
+
+function asFilterList(key: string, value: unknown): SupabaseFilter[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`"${key}" expects a non-empty array of filters`);
+  }
+  return value.map(item => asFilter(key, item));
+}
+
+function requireArray(column: string, operator: string, value: unknown): any[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Operator "${operator}" for column ${column} expects an array value`);
+  }
+  return value;
+}
+
+function requireIsValue(column: string, value: unknown): null | boolean {
+  if (value !== null && typeof value !== 'boolean') {
+    throw new Error(`Operator "is" for column ${column} expects null, true or false`);
+  }
+  return value;
+}
+
+function requireRange(column: string, value: unknown): [any, any] {
+  if (!Array.isArray(value) || value.length !== 2) {
+    throw new Error(`Operator "between" for column ${column} expects a [from, to] array`);
+  }
+  return [value[0], value[1]];
+}
+
+// Arrays become Postgres array literals, objects JSON (for jsonb containment)
+function serializeCollection(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `{${value.map(item => quote(item)).join(',')}}`;
+  }
+  if (value && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+// Values containing PostgREST reserved characters must be double-quoted
+function quote(value: unknown): string {
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  const text = value === null ? 'null' : String(value);
+  return /[,.:()"\\\s{}]/.test(text) ? `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : text;
+}
@@ -0,0 +1,68 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const TOKEN_TTL_MS = 10 * 60 * 1000;
+
+export interface WriteGuardOptions {
+  maxAffectedRows?: number;
+  sampleSize?: number;
+}
+
+/**
+ * Issues and checks confirmation tokens for destructive writes. A token is an
+ * HMAC over the exact operation, table, filter and data that were previewed,
+ * so it cannot be reused for a different mutation and expires after a while.
+ * The key lives only in this process, which also invalidates tokens on restart.
+ */
+export class WriteGuard {
+  readonly maxAffectedRows: number;
+  readonly sampleSize: number;
+  private key = randomBytes(32);
+
+  constructor(options: WriteGuardOptions = {}) {
+    this.maxAffectedRows = options.maxAffectedRows ?? 100;
+    this.sampleSize = options.sampleSize ?? 5;
+  }
+
+  issueToken(payload: unknown): string {
+    const issuedAt = Date.now().toString();
+    return `${issuedAt}.${this.sign(issuedAt, payload)}`;
+  }
+
+  verifyToken(token: string, payload: unknown): void {
+    const [issuedAt, signature] = token.split('.');
+    if (!issuedAt || !signature) {
+      throw new Error('Malformed confirmation token');
+    }
+
+    if (Date.now() - Number(issuedAt) > TOKEN_TTL_MS) {
+      throw new Error('Confirmation token expired; run a dry run again');
+    }
+
+    const expected = Buffer.from(this.sign(issuedAt, payload));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      throw new Error('Confirmation token does not match this operation; run a dry run again');
+    }
+  }
+
+  private sign(issuedAt: string, payload: unknown): string {
+    return createHmac('sha256', this.key)
+      .update(`${issuedAt}:${stableStringify(payload)}`)
+      .digest('base64url');
+  }
+}
+
+// JSON with sorted keys so equivalent filters produce the same token
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
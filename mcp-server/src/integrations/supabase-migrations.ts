@@ -0,0 +1,174 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { GitHubIntegration } from './github.js';
+
+/**
+ * Migrations are `.sql` files named `<version>_<name>.sql` (e.g.
+ * `20240611093000_add_sources.sql`), applied in version order. Applied
+ * versions and the checksum of what ran are recorded in a tracking table.
+ */
+
+const MIGRATION_FILENAME = /^(\d+)[_-](.+)\.sql$/;
+
+export interface MigrationFile {
+  version: string;
+  name: string;
+  path: string;
+  checksum: string;
+  sql: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+export interface MigrationSource {
+  directory?: string;
+  github?: { owner: string; repo: string; path: string; ref?: string };
+}
+
+export interface MigrationPlan {
+  pending: MigrationFile[];
+  applied: AppliedMigration[];
+  /** Applied migrations whose file has been edited since */
+  changed: { version: string; name: string; path: string }[];
+  /** Applied migrations that no longer have a file */
+  missing: AppliedMigration[];
+  /** Files that do not follow the naming convention */
+  skipped: string[];
+}
+
+export async function loadMigrations(source: MigrationSource, github?: GitHubIntegration): Promise<{
+  files: MigrationFile[];
+  skipped: string[];
+}> {
+  if (!source.directory === !source.github) {
+    throw new Error('Provide either directory or github as the migration source');
+  }
+
+  const entries: { name: string; path: string; read: () => Promise<string> }[] = [];
+
+  if (source.directory) {
+    const directory = path.resolve(source.directory);
+    for (const name of await fs.readdir(directory)) {
+      const filePath = path.join(directory, name);
+      entries.push({ name, path: filePath, read: () => fs.readFile(filePath, 'utf-8') });
+    }
+  } else {
+    if (!github?.isAvailable()) {
+      throw new Error('GitHub is not configured to read migrations from');
+    }
+
+    const { owner, repo, ref } = source.github!;
+    for (const entry of await github.listDirectory({ owner, repo, path: source.github!.path, ref })) {
+      if (entry.type === 'file') {
+        entries.push({
+          name: entry.name,
+          path: entry.path,
+          read: async () => (await github.getFileContent({ owner, repo, path: entry.path, ref })).content,
+        });
+      }
+    }
+  }
+
+  const files: MigrationFile[] = [];
+  const skipped: string[] = [];
+
+  for (const entry of entries) {
+    const match = MIGRATION_FILENAME.exec(entry.name);
+    if (!match) {
+      if (entry.name.endsWith('.sql')) {
+        skipped.push(entry.path);
+      }
+      continue;
+    }
+
+    const sql = await entry.read();
+    files.push({
+      version: match[1],
+      name: match[2],
+      path: entry.path,
+      checksum: createHash('sha256').update(sql).digest('hex'),
+      sql,
+    });
+  }
+
+  files.sort((a, b) => compareVersions(a.version, b.version));
+
+  for (let i = 1; i < files.length; i++) {
+    if (files[i].version === files[i - 1].version) {
+      throw new Error(`Duplicate migration version ${files[i].version}: ${files[i - 1].path} and ${files[i].path}`);
+    }
+  }
+
+  return { files, skipped };
+}
+
+export function planMigrations(
+  files: MigrationFile[],
+  applied: AppliedMigration[],
+  skipped: string[],
+  target?: string,
+): MigrationPlan {
+  const appliedByVersion = new Map(applied.map(migration => [migration.version, migration]));
+  const fileVersions = new Set(files.map(file => file.version));
+
+  return {
+    pending: files.filter(file =>
+      !appliedByVersion.has(file.version) && (!target || compareVersions(file.version, target) <= 0)),
+    applied,
+    changed: files
+      .filter(file => {
+        const migration = appliedByVersion.get(file.version);
+        return migration && migration.checksum !== file.checksum;
+      })
+      .map(file => ({ version: file.version, name: file.name, path: file.path })),
+    missing: applied.filter(migration => !fileVersions.has(migration.version)),
+    skipped,
+  };
+}
+
+/**
+ * SQL that creates the tracking table and the function migrations are applied
+ * through. PostgREST runs each RPC call in one transaction, so a failing
+ * migration rolls back the whole batch including its tracking rows.
+ */
+export function migrationSetupSql(table: string, rpc: string): string {
+  return `create table if not exists public.${table} (
+  version text primary key,
+  name text not null,
+  checksum text not null,
+  applied_at timestamptz not null default now()
+);
+alter table public.${table} enable row level security;
+
+create or replace function public.${rpc}(migrations jsonb)
+returns setof text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  migration jsonb;
+begin
+  for migration in select * from jsonb_array_elements(migrations) loop
+    execute migration->>'sql';
+    insert into public.${table} (version, name, checksum)
+    values (migration->>'version', migration->>'name', migration->>'checksum');
+    return next migration->>'version';
+  end loop;
+end;
+$$;
+
+revoke execute on function public.${rpc}(jsonb) from public, anon, authenticated;
+grant execute on function public.${rpc}(jsonb) to service_role;
+`;
+}
+
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
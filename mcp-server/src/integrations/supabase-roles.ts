@@ -0,0 +1,57 @@
+import { createHmac } from 'crypto';
+
+// Impersonation tokens only need to outlive a single tool call
+const USER_TOKEN_TTL_SECONDS = 5 * 60;
+
+export type SupabaseRole = 'anon' | 'service_role' | 'user';
+
+export interface SupabaseRoleArgs {
+  role?: SupabaseRole;
+  userJwt?: string;
+  userId?: string;
+}
+
+export interface SupabaseRolePolicy {
+  /** Allow tools to run with the service role key, bypassing RLS */
+  allowServiceRole?: boolean;
+  /** Allow minting user JWTs from a user ID with the project's JWT secret */
+  allowImpersonation?: boolean;
+}
+
+export const ROLE_SCHEMA_PROPERTIES = {
+  role: {
+    type: 'string',
+    enum: ['anon', 'service_role', 'user'],
+    description: 'Role to run as (default: anon). "user" requires userJwt or userId',
+  },
+  userJwt: {
+    type: 'string',
+    description: 'Access token of the Pulse user to act as (role: user)',
+  },
+  userId: {
+    type: 'string',
+    description: 'ID of the Pulse user to impersonate; a short-lived JWT is minted for it (role: user)',
+  },
+};
+
+/**
+ * Mint an HS256 access token for a user the same way Supabase Auth does, so
+ * RLS policies see `auth.uid()` and the `authenticated` role.
+ */
+export function signUserJwt(jwtSecret: string, userId: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = { alg: 'HS256', typ: 'JWT' };
+  const payload = {
+    sub: userId,
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: now,
+    exp: now + USER_TOKEN_TTL_SECONDS,
+  };
+
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode(header)}.${encode(payload)}`;
+  const signature = createHmac('sha256', jwtSecret).update(unsigned).digest('base64url');
+
+  return `${unsigned}.${signature}`;
+}
@@ -0,0 +1,106 @@
+/**
+ * Helpers for reading the OpenAPI (Swagger 2.0) document PostgREST serves at
+ * /rest/v1/. Column notes such as primary and foreign keys are only exposed as
+ * markers inside the column descriptions, so they are parsed out of the text.
+ */
+
+const FOREIGN_KEY_MARKER = /<fk table='([^']+)' column='([^']+)'\/>/;
+const PRIMARY_KEY_MARKER = '<pk/>';
+
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  format?: string;
+  required: boolean;
+  nullable?: boolean;
+  default?: any;
+  primaryKey: boolean;
+  foreignKey?: { table: string; column: string };
+  enum?: any[];
+  description?: string;
+}
+
+export function listTables(doc: any): any[] {
+  return Object.keys(doc.definitions || {})
+    .sort()
+    .map(name => {
+      const operations = Object.keys(doc.paths?.[`/${name}`] || {});
+      // PostgREST only exposes write verbs for relations that accept writes,
+      // so read-only relations are reported as views
+      const writable = operations.some(op => ['post', 'patch', 'delete'].includes(op));
+
+      return {
+        name,
+        type: writable ? 'table' : 'view',
+        columns: Object.keys(doc.definitions[name].properties || {}).length,
+        description: doc.definitions[name].description || undefined,
+      };
+    });
+}
+
+export function describeTable(doc: any, table: string): any {
+  const definition = doc.definitions?.[table];
+  if (!definition) {
+    throw new Error(`Table or view not found: ${table}`);
+  }
+
+  const required = new Set<string>(definition.required || []);
+  const columns: SchemaColumn[] = Object.entries(definition.properties || {}).map(
+    ([name, property]: [string, any]) => {
+      const description: string = property.description || '';
+      const foreignKey = FOREIGN_KEY_MARKER.exec(description);
+
+      return {
+        name,
+        type: property.type,
+        format: property.format,
+        // PostgREST marks NOT NULL columns without a default as required; for
+        // columns with a default, nullability is not exposed
+        required: required.has(name),
+        nullable: required.has(name) ? false : property.default === undefined ? true : undefined,
+        default: property.default,
+        primaryKey: description.includes(PRIMARY_KEY_MARKER),
+        foreignKey: foreignKey ? { table: foreignKey[1], column: foreignKey[2] } : undefined,
+        enum: property.enum,
+        description: cleanDescription(description),
+      };
+    },
+  );
+
+  return {
+    name: table,
+    description: definition.description || undefined,
+    columns,
+  };
+}
+
+export function listFunctions(doc: any): any[] {
+  return Object.entries(doc.paths || {})
+    .filter(([path]) => path.startsWith('/rpc/'))
+    .map(([path, operations]: [string, any]) => {
+      const operation = operations.post || operations.get || {};
+      const body = (operation.parameters || []).find((param: any) => param.in === 'body');
+      const schema = body?.schema || {};
+      const required = new Set<string>(schema.required || []);
+
+      return {
+        name: path.slice('/rpc/'.length),
+        description: operation.summary || operation.description || undefined,
+        parameters: Object.entries(schema.properties || {}).map(([name, property]: [string, any]) => ({
+          name,
+          type: property.type,
+          format: property.format,
+          required: required.has(name),
+        })),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Strip PostgREST's generated key notes, keeping any user-written comment
+function cleanDescription(description: string): string | undefined {
+  const cleaned = description
+    .replace(/\n?Note:\nThis is a (Primary|Foreign) Key[^<]*<(pk|fk[^>]*)\/>/g, '')
+    .trim();
+  return cleaned || undefined;
+}
@@ -1,41 +1,217 @@
+import { createHash, randomUUID } from 'crypto';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { SecretsManager } from '../secrets.js';
+import { Integration, ToolContext, ToolDefinition } from './types.js';
+import {
+  applyFilter,
+  isEmptyFilter,
+  toRealtimeFilter,
+  FILTER_DESCRIPTION,
+  SupabaseFilter,
+} from './supabase-filter.js';
+import { WriteGuard, WriteGuardOptions } from './supabase-guard.js';
+import { describeTable, listFunctions, listTables } from './supabase-schema.js';
+import {
+  signUserJwt,
+  ROLE_SCHEMA_PROPERTIES,
+  SupabaseRoleArgs,
+  SupabaseRolePolicy,
+} from './supabase-roles.js';
+import {
+  decodeCursor,
+  encodeCursor,
+  keysetFilter,
+  ExportFormat,
+  LocalExportWriter,
+  RowSerializer,
+  StreamExportWriter,
+} from './supabase-export.js';
+import {
+  loadMigrations,
+  migrationSetupSql,
+  planMigrations,
+  MigrationFile,
+  MigrationSource,
+} from './supabase-migrations.js';
+import { GCloudIntegration } from './gcloud.js';
+import { GitHubIntegration } from './github.js';
 
-export interface SupabaseQueryArgs {
+export interface SupabaseQueryArgs extends SupabaseRoleArgs {
   table: string;
   select?: string;
-  filter?: Record<string, any>;
+  filter?: SupabaseFilter;
   limit?: number;
   orderBy?: { column: string; ascending?: boolean };
+  offset?: number;
+  range?: { from: number; to: number };
+  cursor?: string;
+  /** Unique column breaking ties on orderBy for cursors (default: primary key) */
+  uniqueKey?: string;
+  count?: 'exact' | 'planned' | 'estimated';
 }
 
-export interface SupabaseInsertArgs {
+export interface SupabaseInsertArgs extends SupabaseRoleArgs {
   table: string;
   data: Record<string, any> | Record<string, any>[];
 }
 
-export interface SupabaseUpdateArgs {
+export interface SupabaseUpdateArgs extends SupabaseRoleArgs {
   table: string;
   data: Record<string, any>;
-  filter: Record<string, any>;
+  filter: SupabaseFilter;
+  dryRun?: boolean;
+  confirmToken?: string;
 }
 
-export interface SupabaseDeleteArgs {
+export interface SupabaseDeleteArgs extends SupabaseRoleArgs {
   table: string;
-  filter: Record<string, any>;
+  filter: SupabaseFilter;
+  dryRun?: boolean;
+  confirmToken?: string;
 }
 
-export interface SupabaseRpcArgs {
+export interface SupabaseRpcArgs extends SupabaseRoleArgs {
   functionName: string;
   params?: Record<string, any>;
 }
 
-export class SupabaseIntegration {
+export interface SupabaseDescribeTableArgs extends SupabaseRoleArgs {
+  table: string;
+}
+
+export interface SupabaseExportArgs extends SupabaseRoleArgs {
+  table: string;
+  select?: string;
+  filter?: SupabaseFilter;
+  orderBy?: { column: string; ascending?: boolean };
+  uniqueKey?: string;
+  format?: ExportFormat;
+  path?: string;
+  bucket?: string;
+  object?: string;
+  overwrite?: boolean;
+  pageSize?: number;
+  maxRows?: number;
+}
+
+export interface SupabaseStorageListArgs extends SupabaseRoleArgs {
+  bucket: string;
+  prefix?: string;
+  maxResults?: number;
+  offset?: number;
+}
+
+export interface SupabaseStorageReadArgs extends SupabaseRoleArgs {
+  bucket: string;
+  file: string;
+  encoding?: 'utf-8' | 'base64';
+}
+
+export interface SupabaseStorageWriteArgs extends SupabaseRoleArgs {
+  bucket: string;
+  file: string;
+  content: string;
+  contentType?: string;
+  encoding?: 'utf-8' | 'base64';
+  upsert?: boolean;
+}
+
+export interface SupabaseStorageMoveArgs extends SupabaseRoleArgs {
+  bucket: string;
+  from: string;
+  to: string;
+}
+
+export interface SupabaseStorageRemoveArgs extends SupabaseRoleArgs {
+  bucket: string;
+  files: string[];
+}
+
+export interface SupabaseStorageSignedUrlArgs extends SupabaseRoleArgs {
+  bucket: string;
+  file: string;
+  expiresIn?: number;
+  download?: boolean | string;
+}
+
+export type SupabaseChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface SupabaseWatchArgs extends SupabaseRoleArgs {
+  table: string;
+  schema?: string;
+  events?: SupabaseChangeEvent[];
+  filter?: SupabaseFilter;
+  durationSeconds?: number;
+  maxEvents?: number;
+}
+
+export interface SupabaseMigrateArgs extends MigrationSource {
+  target?: string;
+  dryRun?: boolean;
+  confirmToken?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_EXPORT_PAGE_SIZE = 1000;
+const DEFAULT_EXPORT_MAX_ROWS = 100_000;
+
+// Watches hold a socket and a tool call open, so keep them short
+const DEFAULT_WATCH_SECONDS = 30;
+const MAX_WATCH_SECONDS = 300;
+const DEFAULT_WATCH_EVENTS = 100;
+const MAX_WATCH_EVENTS = 1000;
+
+// The OpenAPI document only changes with migrations, so cache it briefly
+const SCHEMA_CACHE_TTL_MS = 60 * 1000;
+
+export interface SupabaseIntegrationOptions {
+  writeGuard?: WriteGuardOptions;
+  rolePolicy?: SupabaseRolePolicy;
+  /** Used by supabase_export to write to Cloud Storage */
+  gcloud?: GCloudIntegration;
+  /** Used by supabase_migrate to read migrations from a repository */
+  github?: GitHubIntegration;
+  migrations?: {
+    /** Tracking table (default: schema_migrations) */
+    table?: string;
+    /** Function migrations are applied through (default: pulse_apply_migrations) */
+    rpc?: string;
+  };
+}
+
+interface ResolvedRole {
+  client: SupabaseClient;
+  apiKey: string;
+  token: string;
+  /** Who the role acts as, stable across calls and free of credentials */
+  identity: string;
+}
+
+export class SupabaseIntegration implements Integration {
+  readonly name = 'supabase';
   private client?: SupabaseClient;
   private secretsManager: SecretsManager;
+  private writeGuard: WriteGuard;
+  private url?: string;
+  private anonKey?: string;
+  private serviceClient?: SupabaseClient;
+  private serviceRoleKey?: string;
+  private jwtSecret?: string;
+  private rolePolicy: SupabaseRolePolicy;
+  private gcloud?: GCloudIntegration;
+  private github?: GitHubIntegration;
+  private migrationsTable: string;
+  private migrationsRpc: string;
+  private schemaCache = new Map<string, { doc: any; fetchedAt: number }>();
 
-  constructor(secretsManager: SecretsManager) {
+  constructor(secretsManager: SecretsManager, options: SupabaseIntegrationOptions = {}) {
     this.secretsManager = secretsManager;
+    this.writeGuard = new WriteGuard(options.writeGuard);
+    this.rolePolicy = options.rolePolicy || {};
+    this.gcloud = options.gcloud;
+    this.github = options.github;
+    this.migrationsTable = options.migrations?.table || 'schema_migrations';
+    this.migrationsRpc = options.migrations?.rpc || 'pulse_apply_migrations';
   }
 
   async initialize(): Promise<boolean> {
@@ -44,12 +220,26 @@ export class SupabaseIntegration {
       return false;
     }
 
+    this.url = config.url.replace(/\/+$/, '');
+    this.anonKey = config.anonKey;
+
     this.client = createClient(config.url, config.anonKey, {
       auth: {
         persistSession: false,
       },
     });
 
+    if (config.serviceRoleKey) {
+      this.serviceRoleKey = config.serviceRoleKey;
+      this.serviceClient = createClient(config.url, config.serviceRoleKey, {
+        auth: {
+          persistSession: false,
+        },
+      });
+    }
+
+    this.jwtSecret = config.jwtSecret;
+
     return true;
   }
 
@@ -58,78 +248,207 @@ export class SupabaseIntegration {
   }
 
   async query(args: SupabaseQueryArgs): Promise<any> {
-    if (!this.client) {
-      throw new Error('Supabase client not initialized');
+    const { client } = this.resolveRole(args);
+    const page = await this.fetchPage(client, args);
+
+    // Plain queries keep returning just the rows
+    const paged = args.count || args.offset !== undefined || args.range || args.cursor;
+    return paged ? page : page.rows;
+  }
+
+  async export(args: SupabaseExportArgs): Promise<any> {
+    const { client } = this.resolveRole(args);
+
+    if (!args.path === !(args.bucket && args.object)) {
+      throw new Error('Provide either path (local file) or bucket and object (Cloud Storage)');
+    }
+    if (args.bucket && !this.gcloud?.isAvailable()) {
+      throw new Error('Google Cloud Storage is not configured for exports');
     }
 
-    let query = this.client.from(args.table).select(args.select || '*');
+    const format = args.format || 'jsonl';
+    const pageSize = args.pageSize || DEFAULT_EXPORT_PAGE_SIZE;
+    const maxRows = args.maxRows || DEFAULT_EXPORT_MAX_ROWS;
+    const serializer = new RowSerializer(format);
 
-    // Apply filters
-    if (args.filter) {
-      for (const [key, value] of Object.entries(args.filter)) {
-        if (value === null) {
-          query = query.is(key, null);
-        } else if (typeof value === 'object' && value.operator) {
-          // Support advanced operators like { operator: 'gte', value: 10 }
-          switch (value.operator) {
-            case 'eq':
-              query = query.eq(key, value.value);
-              break;
-            case 'neq':
-              query = query.neq(key, value.value);
-              break;
-            case 'gt':
-              query = query.gt(key, value.value);
-              break;
-            case 'gte':
-              query = query.gte(key, value.value);
-              break;
-            case 'lt':
-              query = query.lt(key, value.value);
-              break;
-            case 'lte':
-              query = query.lte(key, value.value);
-              break;
-            case 'like':
-              query = query.like(key, value.value);
-              break;
-            case 'ilike':
-              query = query.ilike(key, value.value);
-              break;
-            case 'in':
-              query = query.in(key, value.value);
-              break;
-          }
-        } else {
-          query = query.eq(key, value);
+    // Keyset pagination needs a unique key to break ties and is stable under
+    // concurrent writes. Unordered offsets are only a fallback for tables
+    // without one, since Postgres may return rows in a different order per page.
+    const uniqueKey = await this.findUniqueKey(args);
+    if (args.orderBy && !uniqueKey) {
+      throw new Error(`${args.table} has no single-column primary key; pass uniqueKey to export it ordered by ${args.orderBy.column}`);
+    }
+    const orderBy = args.orderBy || (uniqueKey ? { column: uniqueKey } : undefined);
+
+    let writer: StreamExportWriter;
+    if (args.path) {
+      const local = new LocalExportWriter(args.path);
+      await local.open(args.overwrite ?? false);
+      writer = local;
+    } else {
+      writer = new StreamExportWriter(this.gcloud!.createWriteStream({
+        bucket: args.bucket!,
+        file: args.object!,
+        contentType: format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+      }));
+    }
+
+    let exported = 0;
+    let truncated = false;
+    let cursor: string | undefined;
+    let offset = 0;
+
+    const nextPage = (limit: number) => this.fetchPage(client, {
+      ...args,
+      orderBy,
+      limit,
+      uniqueKey,
+      cursor: orderBy ? cursor : undefined,
+      offset: orderBy ? undefined : offset,
+    });
+
+    try {
+      for (;;) {
+        const limit = Math.min(pageSize, maxRows - exported);
+        const page = await nextPage(limit);
+
+        await writer.write(serializer.serialize(page.rows));
+
+        exported += page.rows.length;
+        offset += page.rows.length;
+        cursor = page.nextCursor || undefined;
+
+        if (page.rows.length < limit) {
+          break;
+        }
+        if (orderBy && !cursor) {
+          throw new Error(`select must include ${orderBy.column} and ${uniqueKey} to export page by page`);
+        }
+        if (exported >= maxRows) {
+          // Only report truncation when rows were actually left behind
+          truncated = (await nextPage(1)).rows.length > 0;
+          break;
         }
       }
+    } catch (error: any) {
+      writer.abort(error);
+      throw error;
+    }
+    await writer.close();
+
+    return {
+      table: args.table,
+      format,
+      rows: exported,
+      truncated,
+      pagination: orderBy ? 'keyset' : 'offset',
+      warning: orderBy
+        ? undefined
+        : `${args.table} has no single-column primary key, so rows were paged by offset without a stable order `
+          + 'and may have been skipped or repeated; pass orderBy and uniqueKey for a consistent export',
+      destination: args.path ? (writer as LocalExportWriter).path : `gs://${args.bucket}/${args.object}`,
+    };
+  }
+
+  private async fetchPage(client: SupabaseClient, args: SupabaseQueryArgs): Promise<any> {
+    const keyset = args.cursor ? decodeCursor(args.cursor) : undefined;
+    if (keyset && args.orderBy && args.orderBy.column !== keyset.column) {
+      throw new Error(`Cursor was created for ordering by ${keyset.column}, not ${args.orderBy.column}`);
+    }
+    if (keyset && args.uniqueKey && args.uniqueKey !== keyset.key.column) {
+      throw new Error(`Cursor was created with unique key ${keyset.key.column}, not ${args.uniqueKey}`);
+    }
+
+    const order = args.orderBy
+      ? { column: args.orderBy.column, ascending: args.orderBy.ascending ?? true }
+      : keyset
+        ? { column: keyset.column, ascending: keyset.ascending }
+        : undefined;
+
+    const paged = args.count || args.offset !== undefined || args.range || args.cursor;
+    const pageSize = args.range
+      ? args.range.to - args.range.from + 1
+      : args.limit || (paged ? DEFAULT_PAGE_SIZE : undefined);
+    const start = args.range ? args.range.from : args.offset;
+
+    // Cursors order ties on the sort column by a unique key, so rows sharing
+    // a sort value are neither skipped nor repeated between pages
+    const keyColumn = keyset
+      ? keyset.key.column
+      : order && start === undefined && (paged || args.uniqueKey)
+        ? await this.findUniqueKey(args)
+        : undefined;
+
+    let query = client
+      .from(args.table)
+      .select(args.select || '*', args.count ? { count: args.count } : undefined);
+
+    // Apply filters
+    query = applyFilter(query, args.filter);
+
+    // Continue after the last row of the previous page
+    if (keyset) {
+      query = applyFilter(query, keysetFilter(keyset));
     }
 
     // Apply ordering
-    if (args.orderBy) {
-      query = query.order(args.orderBy.column, { ascending: args.orderBy.ascending ?? true });
+    if (order) {
+      query = query.order(order.column, { ascending: order.ascending });
+      if (keyColumn && keyColumn !== order.column) {
+        query = query.order(keyColumn, { ascending: true });
+      }
     }
 
-    // Apply limit
-    if (args.limit) {
-      query = query.limit(args.limit);
+    // Apply range, offset or limit
+    if (start !== undefined) {
+      query = query.range(start, start + pageSize! - 1);
+    } else if (pageSize) {
+      query = query.limit(pageSize);
     }
 
-    const { data, error } = await query;
+    const { data, count, error } = await query;
     if (error) {
       throw new Error(`Supabase query error: ${error.message}`);
     }
 
-    return data;
+    const rows: any[] = data || [];
+    const full = pageSize !== undefined && rows.length === pageSize;
+    const last = rows[rows.length - 1];
+
+    return {
+      rows,
+      count: count ?? undefined,
+      nextOffset: full && start !== undefined ? start + rows.length : undefined,
+      nextCursor: full && start === undefined && order && keyColumn && last
+        && order.column in last && keyColumn in last
+        ? encodeCursor({
+          column: order.column,
+          value: last[order.column],
+          ascending: order.ascending,
+          key: { column: keyColumn, value: last[keyColumn] },
+        })
+        : undefined,
+    };
   }
 
-  async insert(args: SupabaseInsertArgs): Promise<any> {
-    if (!this.client) {
-      throw new Error('Supabase client not initialized');
+  // The caller's uniqueKey, or the table's primary key when it is a single column
+  private async findUniqueKey(args: SupabaseQueryArgs | SupabaseExportArgs): Promise<string | undefined> {
+    if (args.uniqueKey) {
+      return args.uniqueKey;
     }
 
-    const { data, error } = await this.client
+    const doc = await this.getSchemaDocument(args);
+    if (!doc.definitions?.[args.table]) {
+      return undefined;
+    }
+    const keys = describeTable(doc, args.table).columns.filter((column: any) => column.primaryKey);
+    return keys.length === 1 ? keys[0].name : undefined;
+  }
+
+  async insert(args: SupabaseInsertArgs): Promise<any> {
+    const { client } = this.resolveRole(args);
+
+    const { data, error } = await client
       .from(args.table)
       .insert(args.data)
       .select();
@@ -142,16 +461,17 @@ export class SupabaseIntegration {
   }
 
   async update(args: SupabaseUpdateArgs): Promise<any> {
-    if (!this.client) {
-      throw new Error('Supabase client not initialized');
+    const { client } = this.resolveRole(args);
+
+    const guard = await this.guardWrite(client, 'update', args.table, args.filter, args.data, args);
+    if (guard) {
+      return guard;
     }
 
-    let query = this.client.from(args.table).update(args.data);
+    let query = client.from(args.table).update(args.data);
 
     // Apply filters
-    for (const [key, value] of Object.entries(args.filter)) {
-      query = query.eq(key, value);
-    }
+    query = applyFilter(query, args.filter);
 
     const { data, error } = await query.select();
     if (error) {
@@ -162,16 +482,17 @@ export class SupabaseIntegration {
   }
 
   async delete(args: SupabaseDeleteArgs): Promise<any> {
-    if (!this.client) {
-      throw new Error('Supabase client not initialized');
+    const { client } = this.resolveRole(args);
+
+    const guard = await this.guardWrite(client, 'delete', args.table, args.filter, undefined, args);
+    if (guard) {
+      return guard;
     }
 
-    let query = this.client.from(args.table).delete();
+    let query = client.from(args.table).delete();
 
     // Apply filters
-    for (const [key, value] of Object.entries(args.filter)) {
-      query = query.eq(key, value);
-    }
+    query = applyFilter(query, args.filter);
 
     const { data, error } = await query.select();
     if (error) {
@@ -181,12 +502,253 @@ export class SupabaseIntegration {
     return data;
   }
 
-  async rpc(args: SupabaseRpcArgs): Promise<any> {
-    if (!this.client) {
+  /**
+   * Preview a destructive write, or check that it was previewed. Returns the
+   * preview when the write must not run yet, and undefined once the caller has
+   * echoed back a valid confirmation token.
+   */
+  private async guardWrite(
+    client: SupabaseClient,
+    operation: 'update' | 'delete',
+    table: string,
+    filter: SupabaseFilter,
+    data: Record<string, any> | undefined,
+    options: { dryRun?: boolean; confirmToken?: string } & SupabaseRoleArgs,
+  ): Promise<any> {
+    if (isEmptyFilter(filter)) {
+      throw new Error(`Refusing to ${operation} ${table} without a filter`);
+    }
+
+    // Count and sample the rows the filter currently matches
+    const { data: sample, count, error } = await applyFilter(
+      client.from(table).select('*', { count: 'exact' }),
+      filter,
+    ).limit(this.writeGuard.sampleSize);
+
+    if (error) {
+      throw new Error(`Supabase ${operation} preview error: ${error.message}`);
+    }
+
+    const matchedRows = count ?? 0;
+    const limit = this.writeGuard.maxAffectedRows;
+    if (matchedRows > limit && !options.dryRun) {
+      throw new Error(`${operation} would affect ${matchedRows} rows in ${table}, above the limit of ${limit}`);
+    }
+
+    // The token is bound to the role too, so a preview as one user cannot
+    // authorize the write as another
+    const payload = {
+      operation,
+      table,
+      filter,
+      data,
+      role: options.role || 'anon',
+      user: options.userId || options.userJwt,
+    };
+
+    if (options.confirmToken && !options.dryRun) {
+      this.writeGuard.verifyToken(options.confirmToken, payload);
+      return undefined;
+    }
+
+    return {
+      dryRun: true,
+      operation,
+      table,
+      matchedRows,
+      maxAffectedRows: limit,
+      sample,
+      confirmToken: matchedRows <= limit ? this.writeGuard.issueToken(payload) : undefined,
+      message: matchedRows <= limit
+        ? `Re-run with the same arguments and confirmToken to ${operation} these rows`
+        : `Narrow the filter: ${matchedRows} rows exceed the limit of ${limit}`,
+    };
+  }
+
+  async migrate(args: SupabaseMigrateArgs): Promise<any> {
+    // Schema changes always run with the service role
+    const { client } = this.resolveRole({ role: 'service_role' });
+    const { files, skipped } = await loadMigrations(args, this.github);
+
+    const { data: applied, error } = await client
+      .from(this.migrationsTable)
+      .select('version, name, checksum, applied_at')
+      .order('version');
+
+    if (error) {
+      // PGRST205: not in the schema cache; 42P01: undefined table
+      if (error.code === 'PGRST205' || error.code === '42P01') {
+        return {
+          ready: false,
+          pending: files.map(summarizeMigration),
+          setupSql: migrationSetupSql(this.migrationsTable, this.migrationsRpc),
+          message: `Tracking table ${this.migrationsTable} does not exist; run setupSql in the SQL editor first`,
+        };
+      }
+      throw new Error(`Supabase migrations error: ${error.message}`);
+    }
+
+    const plan = planMigrations(files, applied || [], skipped, args.target);
+    const summary = {
+      pending: plan.pending.map(summarizeMigration),
+      appliedCount: plan.applied.length,
+      lastApplied: plan.applied[plan.applied.length - 1]?.version,
+      changed: plan.changed,
+      missing: plan.missing.map(migration => ({ version: migration.version, name: migration.name })),
+      skipped: plan.skipped,
+    };
+
+    if (plan.changed.length > 0) {
+      return {
+        ...summary,
+        message: 'Applied migrations were edited after they ran; revert the edits and add a new migration instead',
+      };
+    }
+    if (plan.pending.length === 0) {
+      return { ...summary, message: 'Database is up to date' };
+    }
+
+    // The token pins the exact files that were reviewed
+    const payload = {
+      operation: 'migrate',
+      migrations: plan.pending.map(file => [file.version, file.checksum]),
+    };
+
+    if (args.confirmToken && !args.dryRun) {
+      this.writeGuard.verifyToken(args.confirmToken, payload);
+
+      const { data, error: rpcError } = await client.rpc(this.migrationsRpc, {
+        migrations: plan.pending.map(file => ({
+          version: file.version,
+          name: file.name,
+          checksum: file.checksum,
+          sql: file.sql,
+        })),
+      });
+      if (rpcError) {
+        throw new Error(`Supabase migration failed, nothing was applied: ${rpcError.message}`);
+      }
+
+      return { applied: data, pending: [] };
+    }
+
+    return {
+      dryRun: true,
+      ...summary,
+      confirmToken: this.writeGuard.issueToken(payload),
+      message: `Re-run with the same arguments and confirmToken to apply ${plan.pending.length} migration(s)`,
+    };
+  }
+
+  async listTables(args: SupabaseRoleArgs): Promise<any> {
+    return listTables(await this.getSchemaDocument(args));
+  }
+
+  async describeTable(args: SupabaseDescribeTableArgs): Promise<any> {
+    return describeTable(await this.getSchemaDocument(args), args.table);
+  }
+
+  async listFunctions(args: SupabaseRoleArgs): Promise<any> {
+    return listFunctions(await this.getSchemaDocument(args));
+  }
+
+  // Each role can see a different set of relations, so cache per identity
+  private async getSchemaDocument(args: SupabaseRoleArgs): Promise<any> {
+    const { apiKey, token, identity } = this.resolveRole(args);
+
+    const now = Date.now();
+    for (const [key, entry] of this.schemaCache) {
+      if (now - entry.fetchedAt >= SCHEMA_CACHE_TTL_MS) {
+        this.schemaCache.delete(key);
+      }
+    }
+
+    const cached = this.schemaCache.get(identity);
+    if (cached) {
+      return cached.doc;
+    }
+
+    const response = await fetch(`${this.url}/rest/v1/`, {
+      headers: {
+        apikey: apiKey,
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/openapi+json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Supabase schema error: ${response.status} ${await response.text()}`);
+    }
+
+    const doc = await response.json();
+    this.schemaCache.set(identity, { doc, fetchedAt: Date.now() });
+    return doc;
+  }
+
+  private resolveRole(args: SupabaseRoleArgs): ResolvedRole {
+    if (!this.client || !this.url || !this.anonKey) {
       throw new Error('Supabase client not initialized');
     }
 
-    const { data, error } = await this.client.rpc(args.functionName, args.params);
+    switch (args.role || 'anon') {
+      case 'anon':
+        return { client: this.client, apiKey: this.anonKey, token: this.anonKey, identity: 'anon' };
+
+      case 'service_role':
+        if (!this.rolePolicy.allowServiceRole) {
+          throw new Error('The service_role role is disabled by policy');
+        }
+        if (!this.serviceClient || !this.serviceRoleKey) {
+          throw new Error('No Supabase service role key is configured');
+        }
+        return {
+          client: this.serviceClient,
+          apiKey: this.serviceRoleKey,
+          token: this.serviceRoleKey,
+          identity: 'service_role',
+        };
+
+      case 'user': {
+        let token = args.userJwt;
+        if (!token && args.userId) {
+          if (!this.rolePolicy.allowImpersonation) {
+            throw new Error('Impersonating users by ID is disabled by policy; pass userJwt instead');
+          }
+          if (!this.jwtSecret) {
+            throw new Error('No Supabase JWT secret is configured to impersonate users');
+          }
+          token = signUserJwt(this.jwtSecret, args.userId);
+        }
+        if (!token) {
+          throw new Error('The user role requires userJwt or userId');
+        }
+
+        // The anon key identifies the project; the user token drives RLS
+        const client = createClient(this.url, this.anonKey, {
+          auth: {
+            persistSession: false,
+            autoRefreshToken: false,
+          },
+          global: {
+            headers: { Authorization: `Bearer ${token}` },
+          },
+        });
+        // Minted tokens change on every call; passed tokens are only kept as a hash
+        const identity = args.userJwt
+          ? `user:jwt:${createHash('sha256').update(args.userJwt).digest('hex')}`
+          : `user:id:${args.userId}`;
+        return { client, apiKey: this.anonKey, token, identity };
+      }
+
+      default:
+        throw new Error(`Unknown Supabase role: ${args.role}`);
+    }
+  }
+
+  async rpc(args: SupabaseRpcArgs): Promise<any> {
+    const { client } = this.resolveRole(args);
+
+    const { data, error } = await client.rpc(args.functionName, args.params);
     if (error) {
       throw new Error(`Supabase RPC error: ${error.message}`);
     }
@@ -194,7 +756,231 @@ export class SupabaseIntegration {
     return data;
   }
 
-  getTools() {
+  async watch(args: SupabaseWatchArgs, context: ToolContext = {}): Promise<any> {
+    const { apiKey, token } = this.resolveRole(args);
+
+    const filter = toRealtimeFilter(args.filter);
+    const durationMs = Math.min(args.durationSeconds || DEFAULT_WATCH_SECONDS, MAX_WATCH_SECONDS) * 1000;
+    const maxEvents = Math.min(args.maxEvents || DEFAULT_WATCH_EVENTS, MAX_WATCH_EVENTS);
+    const types = new Set<string>(args.events?.length ? args.events : ['INSERT', 'UPDATE', 'DELETE']);
+
+    // A dedicated client keeps the socket and its auth scoped to this call
+    const client = createClient(this.url!, apiKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    });
+    client.realtime.setAuth(token);
+
+    const events: any[] = [];
+    const startedAt = new Date().toISOString();
+    let notifications = Promise.resolve();
+
+    try {
+      const stoppedBy = await new Promise<string>((resolve, reject) => {
+        let timer: NodeJS.Timeout | undefined;
+
+        const stop = (reason: string) => {
+          clearTimeout(timer);
+          context.signal?.removeEventListener('abort', onAbort);
+          resolve(reason);
+        };
+        const onAbort = () => stop('cancelled');
+
+        if (context.signal?.aborted) {
+          stop('cancelled');
+          return;
+        }
+        context.signal?.addEventListener('abort', onAbort);
+
+        client
+          .channel(`pulse-watch-${randomUUID()}`)
+          .on(
+            'postgres_changes',
+            { event: '*', schema: args.schema || 'public', table: args.table, filter },
+            (payload: any) => {
+              if (!types.has(payload.eventType) || events.length >= maxEvents) {
+                return;
+              }
+
+              const event = {
+                type: payload.eventType,
+                commitTimestamp: payload.commit_timestamp,
+                new: isEmptyRecord(payload.new) ? undefined : payload.new,
+                old: isEmptyRecord(payload.old) ? undefined : payload.old,
+              };
+              events.push(event);
+
+              if (context.notify) {
+                notifications = notifications.then(() => context.notify!(event)).catch(() => undefined);
+              }
+              if (events.length >= maxEvents) {
+                stop('maxEvents');
+              }
+            },
+          )
+          .subscribe((status, error) => {
+            if (status === 'SUBSCRIBED') {
+              // Only start the clock once changes are actually flowing
+              timer = setTimeout(() => stop('duration'), durationMs);
+            } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+              clearTimeout(timer);
+              context.signal?.removeEventListener('abort', onAbort);
+              reject(new Error(`Supabase realtime error: ${error?.message || status}`));
+            }
+          });
+      });
+
+      await notifications;
+
+      return {
+        table: args.table,
+        filter,
+        startedAt,
+        stoppedBy,
+        count: events.length,
+        events,
+      };
+    } finally {
+      await client.removeAllChannels();
+      client.realtime.disconnect();
+    }
+  }
+
+  async listBuckets(args: SupabaseRoleArgs): Promise<any> {
+    const { client } = this.resolveRole(args);
+
+    const { data, error } = await client.storage.listBuckets();
+    if (error) {
+      throw new Error(`Supabase storage error: ${error.message}`);
+    }
+
+    return data.map(bucket => ({
+      name: bucket.name,
+      public: bucket.public,
+      fileSizeLimit: bucket.file_size_limit ?? undefined,
+      allowedMimeTypes: bucket.allowed_mime_types ?? undefined,
+      created: bucket.created_at,
+      updated: bucket.updated_at,
+    }));
+  }
+
+  async listBucketContents(args: SupabaseStorageListArgs): Promise<any> {
+    const { client } = this.resolveRole(args);
+
+    // Storage lists one folder at a time; the part of the prefix after the
+    // last slash is matched against names inside that folder
+    const prefix = args.prefix || '';
+    const slash = prefix.lastIndexOf('/');
+    const folder = slash >= 0 ? prefix.slice(0, slash) : '';
+    const search = prefix.slice(slash + 1);
+
+    const { data, error } = await client.storage.from(args.bucket).list(folder, {
+      limit: args.maxResults,
+      offset: args.offset,
+      search: search || undefined,
+      sortBy: { column: 'name', order: 'asc' },
+    });
+    if (error) {
+      throw new Error(`Supabase storage error: ${error.message}`);
+    }
+
+    return data
+      .filter(object => object.name.startsWith(search))
+      .map(object => {
+        const name = folder ? `${folder}/${object.name}` : object.name;
+        // Folders are returned without an id or metadata
+        if (!object.id) {
+          return { name: `${name}/`, folder: true };
+        }
+
+        return {
+          name,
+          size: object.metadata?.size,
+          contentType: object.metadata?.mimetype,
+          created: object.created_at,
+          updated: object.updated_at,
+        };
+      });
+  }
+
+  async readObject(args: SupabaseStorageReadArgs): Promise<string> {
+    const { client } = this.resolveRole(args);
+
+    const { data, error } = await client.storage.from(args.bucket).download(args.file);
+    if (error) {
+      throw new Error(`Supabase storage error: ${error.message}`);
+    }
+
+    const content = Buffer.from(await data.arrayBuffer());
+    return content.toString(args.encoding === 'base64' ? 'base64' : 'utf-8');
+  }
+
+  async writeObject(args: SupabaseStorageWriteArgs): Promise<any> {
+    const { client } = this.resolveRole(args);
+
+    const content = Buffer.from(args.content, args.encoding === 'base64' ? 'base64' : 'utf-8');
+    const { data, error } = await client.storage.from(args.bucket).upload(args.file, content, {
+      contentType: args.contentType || 'text/plain',
+      upsert: args.upsert ?? false,
+    });
+    if (error) {
+      throw new Error(`Supabase storage error: ${error.message}`);
+    }
+
+    return { path: data.path, size: content.length };
+  }
+
+  async moveObject(args: SupabaseStorageMoveArgs): Promise<any> {
+    const { client } = this.resolveRole(args);
+
+    const { error } = await client.storage.from(args.bucket).move(args.from, args.to);
+    if (error) {
+      throw new Error(`Supabase storage error: ${error.message}`);
+    }
+
+    return { from: args.from, to: args.to };
+  }
+
+  async removeObjects(args: SupabaseStorageRemoveArgs): Promise<any> {
+    const { client } = this.resolveRole(args);
+
+    if (!args.files?.length) {
+      throw new Error('files must list at least one object to remove');
+    }
+
+    const { data, error } = await client.storage.from(args.bucket).remove(args.files);
+    if (error) {
+      throw new Error(`Supabase storage error: ${error.message}`);
+    }
+
+    // Storage silently skips paths that do not exist or are hidden by RLS
+    const removed = data.map(object => object.name);
+    return {
+      removed,
+      notFound: args.files.filter(file => !removed.includes(file)),
+    };
+  }
+
+  async createSignedUrl(args: SupabaseStorageSignedUrlArgs): Promise<any> {
+    const { client } = this.resolveRole(args);
+
+    const expiresIn = args.expiresIn || 3600;
+    const { data, error } = await client.storage
+      .from(args.bucket)
+      .createSignedUrl(args.file, expiresIn, { download: args.download });
+    if (error) {
+      throw new Error(`Supabase storage error: ${error.message}`);
+    }
+
+    return {
+      url: data.signedUrl,
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    };
+  }
+
+  getTools(): ToolDefinition[] {
     return [
       {
         name: 'supabase_query',
@@ -212,7 +998,7 @@ export class SupabaseIntegration {
             },
             filter: {
               type: 'object',
-              description: 'Filter conditions as key-value pairs',
+              description: FILTER_DESCRIPTION,
             },
             limit: {
               type: 'number',
@@ -224,11 +1010,104 @@ export class SupabaseIntegration {
                 column: { type: 'string' },
                 ascending: { type: 'boolean' },
               },
-              description: 'Order results by column',
+              description: 'Order results by column (required for cursor pagination)',
+            },
+            offset: {
+              type: 'number',
+              description: 'Skip this many rows (page size is limit, default 100)',
+            },
+            range: {
+              type: 'object',
+              properties: {
+                from: { type: 'number' },
+                to: { type: 'number' },
+              },
+              required: ['from', 'to'],
+              description: 'Inclusive row range, e.g. { from: 0, to: 99 }',
+            },
+            cursor: {
+              type: 'string',
+              description: 'nextCursor from a previous call, for keyset pagination on orderBy',
+            },
+            uniqueKey: {
+              type: 'string',
+              description: 'Unique column that breaks ties on orderBy for cursors (default: primary key)',
+            },
+            count: {
+              type: 'string',
+              enum: ['exact', 'planned', 'estimated'],
+              description: 'Also return the total number of matching rows',
+            },
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+          required: ['table'],
+        },
+        handler: (args) => this.query(args),
+      },
+      {
+        name: 'supabase_export',
+        description: 'Export every matching row as JSONL or CSV to a local file or a Cloud Storage object',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            table: {
+              type: 'string',
+              description: 'Table name to export',
+            },
+            select: {
+              type: 'string',
+              description: 'Columns to select (default: *)',
+            },
+            filter: {
+              type: 'object',
+              description: FILTER_DESCRIPTION,
+            },
+            orderBy: {
+              type: 'object',
+              properties: {
+                column: { type: 'string' },
+                ascending: { type: 'boolean' },
+              },
+              description: 'Column to sort and page by (default: the primary key)',
+            },
+            uniqueKey: {
+              type: 'string',
+              description: 'Unique column that breaks ties on orderBy (default: primary key)',
+            },
+            format: {
+              type: 'string',
+              enum: ['jsonl', 'csv'],
+              description: 'Output format (default: jsonl)',
+            },
+            path: {
+              type: 'string',
+              description: 'Local file to write',
+            },
+            bucket: {
+              type: 'string',
+              description: 'Cloud Storage bucket to write to',
+            },
+            object: {
+              type: 'string',
+              description: 'Cloud Storage object name',
+            },
+            overwrite: {
+              type: 'boolean',
+              description: 'Replace an existing local file',
+            },
+            pageSize: {
+              type: 'number',
+              description: `Rows fetched per request (default: ${DEFAULT_EXPORT_PAGE_SIZE})`,
+            },
+            maxRows: {
+              type: 'number',
+              description: `Stop after this many rows (default: ${DEFAULT_EXPORT_MAX_ROWS})`,
             },
+            ...ROLE_SCHEMA_PROPERTIES,
           },
           required: ['table'],
         },
+        handler: (args) => this.export(args),
       },
       {
         name: 'supabase_insert',
@@ -244,13 +1123,15 @@ export class SupabaseIntegration {
               type: ['object', 'array'],
               description: 'Data to insert (single object or array of objects)',
             },
+            ...ROLE_SCHEMA_PROPERTIES,
           },
           required: ['table', 'data'],
         },
+        handler: (args) => this.insert(args),
       },
       {
         name: 'supabase_update',
-        description: 'Update data in Supabase database',
+        description: 'Update data in Supabase database (previews matching rows and returns a confirmation token first)',
         inputSchema: {
           type: 'object',
           properties: {
@@ -264,15 +1145,25 @@ export class SupabaseIntegration {
             },
             filter: {
               type: 'object',
-              description: 'Filter conditions to identify rows to update',
+              description: `Rows to update (required, non-empty). ${FILTER_DESCRIPTION}`,
             },
+            dryRun: {
+              type: 'boolean',
+              description: 'Only count and sample the matching rows',
+            },
+            confirmToken: {
+              type: 'string',
+              description: 'Token from a previous dry run; the update only runs when it is provided',
+            },
+            ...ROLE_SCHEMA_PROPERTIES,
           },
           required: ['table', 'data', 'filter'],
         },
+        handler: (args) => this.update(args),
       },
       {
         name: 'supabase_delete',
-        description: 'Delete data from Supabase database',
+        description: 'Delete data from Supabase database (previews matching rows and returns a confirmation token first)',
         inputSchema: {
           type: 'object',
           properties: {
@@ -282,11 +1173,97 @@ export class SupabaseIntegration {
             },
             filter: {
               type: 'object',
-              description: 'Filter conditions to identify rows to delete',
+              description: `Rows to delete (required, non-empty). ${FILTER_DESCRIPTION}`,
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Only count and sample the matching rows',
             },
+            confirmToken: {
+              type: 'string',
+              description: 'Token from a previous dry run; the delete only runs when it is provided',
+            },
+            ...ROLE_SCHEMA_PROPERTIES,
           },
           required: ['table', 'filter'],
         },
+        handler: (args) => this.delete(args),
+      },
+      {
+        name: 'supabase_migrate',
+        description: 'Show pending SQL migrations from a directory or GitHub path and apply them in one transaction. '
+          + 'The first call only returns the plan and a confirmation token',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            directory: {
+              type: 'string',
+              description: 'Local directory containing <version>_<name>.sql files',
+            },
+            github: {
+              type: 'object',
+              properties: {
+                owner: { type: 'string' },
+                repo: { type: 'string' },
+                path: { type: 'string' },
+                ref: { type: 'string' },
+              },
+              required: ['owner', 'repo', 'path'],
+              description: 'Repository directory containing <version>_<name>.sql files',
+            },
+            target: {
+              type: 'string',
+              description: 'Only apply migrations up to and including this version',
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Only show the plan',
+            },
+            confirmToken: {
+              type: 'string',
+              description: 'Token from the plan, required to apply the migrations',
+            },
+          },
+        },
+        handler: (args) => this.migrate(args),
+      },
+      {
+        name: 'supabase_list_tables',
+        description: 'List tables and views exposed by the Supabase REST API',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+        },
+        handler: (args) => this.listTables(args),
+      },
+      {
+        name: 'supabase_describe_table',
+        description: 'Describe the columns of a table or view: types, nullability, defaults and keys',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            table: {
+              type: 'string',
+              description: 'Table or view name',
+            },
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+          required: ['table'],
+        },
+        handler: (args) => this.describeTable(args),
+      },
+      {
+        name: 'supabase_list_functions',
+        description: 'List RPC functions exposed by the Supabase REST API with their parameters',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+        },
+        handler: (args) => this.listFunctions(args),
       },
       {
         name: 'supabase_rpc',
@@ -302,10 +1279,233 @@ export class SupabaseIntegration {
               type: 'object',
               description: 'Parameters to pass to the function',
             },
+            ...ROLE_SCHEMA_PROPERTIES,
           },
           required: ['functionName'],
         },
+        handler: (args) => this.rpc(args),
+      },
+      {
+        name: 'supabase_watch',
+        description: 'Watch a table for inserts, updates and deletes for a limited time and return the changes. '
+          + 'Over HTTP, each change is also streamed as a notification',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            table: {
+              type: 'string',
+              description: 'Table to watch (must be in the supabase_realtime publication)',
+            },
+            schema: {
+              type: 'string',
+              description: 'Database schema (default: public)',
+            },
+            events: {
+              type: 'array',
+              items: { type: 'string', enum: ['INSERT', 'UPDATE', 'DELETE'] },
+              description: 'Change types to collect (default: all)',
+            },
+            filter: {
+              type: 'object',
+              description: 'A single column condition, e.g. { source: "n8n" } or '
+                + '{ id: { operator: "in", value: [1, 2] } }; operators: eq, neq, gt, gte, lt, lte, in',
+            },
+            durationSeconds: {
+              type: 'number',
+              description: `How long to watch (default: ${DEFAULT_WATCH_SECONDS}, max: ${MAX_WATCH_SECONDS})`,
+            },
+            maxEvents: {
+              type: 'number',
+              description: `Stop after this many changes (default: ${DEFAULT_WATCH_EVENTS}, max: ${MAX_WATCH_EVENTS})`,
+            },
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+          required: ['table'],
+        },
+        handler: (args, context) => this.watch(args, context),
+      },
+      {
+        name: 'supabase_storage_list_buckets',
+        description: 'List Supabase Storage buckets',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+        },
+        handler: (args) => this.listBuckets(args),
+      },
+      {
+        name: 'supabase_storage_list',
+        description: 'List objects in a Supabase Storage bucket',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket: {
+              type: 'string',
+              description: 'Bucket name',
+            },
+            prefix: {
+              type: 'string',
+              description: 'Filter results to objects whose names begin with this prefix; subfolders are listed, not expanded',
+            },
+            maxResults: {
+              type: 'number',
+              description: 'Maximum number of results to return (default: 100)',
+            },
+            offset: {
+              type: 'number',
+              description: 'Number of results to skip',
+            },
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+          required: ['bucket'],
+        },
+        handler: (args) => this.listBucketContents(args),
+      },
+      {
+        name: 'supabase_storage_read',
+        description: 'Download a file from Supabase Storage',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket: {
+              type: 'string',
+              description: 'Bucket name',
+            },
+            file: {
+              type: 'string',
+              description: 'File path within the bucket',
+            },
+            encoding: {
+              type: 'string',
+              enum: ['utf-8', 'base64'],
+              description: 'Return the content as text (default) or base64 for binary files',
+            },
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+          required: ['bucket', 'file'],
+        },
+        handler: (args) => this.readObject(args),
+      },
+      {
+        name: 'supabase_storage_write',
+        description: 'Upload a file to Supabase Storage',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket: {
+              type: 'string',
+              description: 'Bucket name',
+            },
+            file: {
+              type: 'string',
+              description: 'File path within the bucket',
+            },
+            content: {
+              type: 'string',
+              description: 'Content to write',
+            },
+            contentType: {
+              type: 'string',
+              description: 'MIME type of the content',
+            },
+            encoding: {
+              type: 'string',
+              enum: ['utf-8', 'base64'],
+              description: 'Encoding of content (default: utf-8)',
+            },
+            upsert: {
+              type: 'boolean',
+              description: 'Overwrite the file if it already exists',
+            },
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+          required: ['bucket', 'file', 'content'],
+        },
+        handler: (args) => this.writeObject(args),
+      },
+      {
+        name: 'supabase_storage_move',
+        description: 'Move or rename a file within a Supabase Storage bucket',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket: {
+              type: 'string',
+              description: 'Bucket name',
+            },
+            from: {
+              type: 'string',
+              description: 'Current file path',
+            },
+            to: {
+              type: 'string',
+              description: 'New file path',
+            },
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+          required: ['bucket', 'from', 'to'],
+        },
+        handler: (args) => this.moveObject(args),
+      },
+      {
+        name: 'supabase_storage_remove',
+        description: 'Delete files from a Supabase Storage bucket',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket: {
+              type: 'string',
+              description: 'Bucket name',
+            },
+            files: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'File paths to delete',
+            },
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+          required: ['bucket', 'files'],
+        },
+        handler: (args) => this.removeObjects(args),
+      },
+      {
+        name: 'supabase_storage_signed_url',
+        description: 'Create a time-limited URL for a file in a private Supabase Storage bucket',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket: {
+              type: 'string',
+              description: 'Bucket name',
+            },
+            file: {
+              type: 'string',
+              description: 'File path within the bucket',
+            },
+            expiresIn: {
+              type: 'number',
+              description: 'Seconds until the URL expires (default: 3600)',
+            },
+            download: {
+              type: ['boolean', 'string'],
+              description: 'Make the URL trigger a download; a string sets the downloaded file name',
+            },
+            ...ROLE_SCHEMA_PROPERTIES,
+          },
+          required: ['bucket', 'file'],
+        },
+        handler: (args) => this.createSignedUrl(args),
       },
     ];
   }
-}
\ No newline at end of file
+}
+
+function isEmptyRecord(value: unknown): boolean {
+  return !value || (typeof value === 'object' && Object.keys(value as object).length === 0);
+}
+
+function summarizeMigration(file: MigrationFile): any {
+  return { version: file.version, name: file.name, path: file.path, checksum: file.checksum };
+}
@@ -0,0 +1,28 @@
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, any>;
+  required?: string[];
+}
+
+/** Per-call hooks supplied by the transport handling the request */
+export interface ToolContext {
+  /** Aborted when the client cancels the call */
+  signal?: AbortSignal;
+  /** Sends an intermediate result to the client; only set when the transport can stream */
+  notify?: (data: unknown) => Promise<void>;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  handler: (args: any, context?: ToolContext) => Promise<any>;
+}
+
+export interface Integration {
+  /** Stable identifier used in logs and to enable or disable the integration */
+  readonly name: string;
+  initialize(): Promise<boolean>;
+  isAvailable(): boolean;
+  getTools(): ToolDefinition[];
+}
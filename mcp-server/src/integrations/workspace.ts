@@ -0,0 +1,301 @@
+import { Integration, ToolDefinition } from './types.js';
+import { FAILED_CONCLUSIONS, GitHubIntegration, GitHubRepoArgs } from './github.js';
+
+// Same repositories setup_repos.sh clones
+export const DEFAULT_WORKSPACE_OWNER = 'anandroid';
+export const DEFAULT_WORKSPACE_REPOS = [
+  'pulse',
+  'pulse-ui',
+  'pulse-apis',
+  'pulse-type-registry',
+  'terraform-gcp',
+  'n8n-sync',
+];
+
+const DEFAULT_STALE_DAYS = 90;
+
+// Per-repository cap so one busy repository cannot crowd out the others
+const MAX_ITEMS_PER_REPO = 200;
+
+export interface WorkspaceOptions {
+  owner?: string;
+  /** Repository names, or owner/repo for repositories under another owner */
+  repos?: string[];
+}
+
+export interface WorkspaceArgs {
+  repos?: string[];
+}
+
+export interface WorkspaceIssuesArgs extends WorkspaceArgs {
+  labels?: string[];
+  assignee?: string;
+}
+
+export interface WorkspaceStaleBranchesArgs extends WorkspaceArgs {
+  days?: number;
+}
+
+/**
+ * Cross-repository views over the Pulse repositories. Every tool runs against
+ * all workspace repositories at once and groups its results by repository; a
+ * failure in one repository is reported in its group instead of failing the call.
+ */
+export class WorkspaceIntegration implements Integration {
+  readonly name = 'workspace';
+  private github: GitHubIntegration;
+  private repos: GitHubRepoArgs[];
+
+  constructor(github: GitHubIntegration, options: WorkspaceOptions = {}) {
+    this.github = github;
+
+    const owner = options.owner || DEFAULT_WORKSPACE_OWNER;
+    this.repos = (options.repos?.length ? options.repos : DEFAULT_WORKSPACE_REPOS).map(entry => {
+      const [repoOwner, repo] = entry.includes('/') ? entry.split('/', 2) : [owner, entry];
+      return { owner: repoOwner, repo };
+    });
+  }
+
+  async initialize(): Promise<boolean> {
+    // Relies on the GitHub integration, which is initialized on its own
+    return true;
+  }
+
+  isAvailable(): boolean {
+    return this.github.isAvailable();
+  }
+
+  listRepos(): any {
+    return { repos: this.repos.map(repoKey) };
+  }
+
+  async openPullRequests(args: WorkspaceArgs): Promise<any> {
+    return this.forEachRepo(args, async repo => {
+      const page = await this.github.listPullRequests({
+        ...repo,
+        state: 'open',
+        all: true,
+        maxItems: MAX_ITEMS_PER_REPO,
+      });
+
+      return {
+        count: page.totalCount ?? page.items.length,
+        truncated: !!page.nextCursor,
+        pullRequests: page.items.map((pr: any) => ({
+          number: pr.number,
+          title: pr.title,
+          user: pr.user,
+          head: pr.head,
+          base: pr.base,
+          draft: pr.draft,
+          updatedAt: pr.updatedAt,
+          url: pr.url,
+        })),
+      };
+    });
+  }
+
+  async openIssues(args: WorkspaceIssuesArgs): Promise<any> {
+    return this.forEachRepo(args, async repo => {
+      // listIssues mixes in pull requests, which would eat into the cap and the count
+      const page = await this.github.searchIssues({
+        query: issueQuery(repo, args),
+        all: true,
+        maxItems: MAX_ITEMS_PER_REPO,
+      });
+
+      return {
+        count: page.totalCount ?? page.items.length,
+        truncated: !!page.nextCursor,
+        issues: page.items.map((issue: any) => ({
+          number: issue.number,
+          title: issue.title,
+          user: issue.user,
+          labels: issue.labels,
+          assignees: issue.assignees,
+          updatedAt: issue.updatedAt,
+          url: issue.url,
+        })),
+      };
+    });
+  }
+
+  async failingChecks(args: WorkspaceArgs): Promise<any> {
+    const results = await this.forEachRepo(args, async repo => {
+      const { defaultBranch } = await this.github.getRepository(repo);
+      const checks = await this.github.getChecks({ ...repo, ref: defaultBranch });
+
+      return {
+        branch: defaultBranch,
+        sha: checks.sha,
+        state: checks.state,
+        failures: [
+          ...checks.checks
+            .filter((check: any) => FAILED_CONCLUSIONS.includes(check.conclusion || ''))
+            .map((check: any) => ({ name: check.name, conclusion: check.conclusion, url: check.url })),
+          ...checks.statuses
+            .filter((status: any) => status.state === 'failure' || status.state === 'error')
+            .map((status: any) => ({ name: status.context, conclusion: status.state, url: status.url })),
+        ],
+      };
+    });
+
+    return {
+      failing: Object.keys(results).filter(key => results[key].state === 'failure'),
+      repos: results,
+    };
+  }
+
+  async staleBranches(args: WorkspaceStaleBranchesArgs): Promise<any> {
+    const days = args.days || DEFAULT_STALE_DAYS;
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+
+    return this.forEachRepo(args, async repo => {
+      const [{ defaultBranch }, branches] = await Promise.all([
+        this.github.getRepository(repo),
+        this.github.listBranches(repo),
+      ]);
+
+      const stale = branches
+        .filter(branch => branch.name !== defaultBranch && branch.lastCommitDate)
+        .filter(branch => Date.parse(branch.lastCommitDate) < cutoff)
+        .sort((a, b) => Date.parse(a.lastCommitDate) - Date.parse(b.lastCommitDate))
+        .map(branch => ({
+          ...branch,
+          daysSinceCommit: Math.floor((Date.now() - Date.parse(branch.lastCommitDate)) / (24 * 60 * 60 * 1000)),
+        }));
+
+      return { count: stale.length, totalBranches: branches.length, branches: stale };
+    });
+  }
+
+  private async forEachRepo(
+    args: WorkspaceArgs,
+    fn: (repo: GitHubRepoArgs) => Promise<any>,
+  ): Promise<Record<string, any>> {
+    const repos = this.selectRepos(args.repos);
+
+    const results = await Promise.all(repos.map(async repo => {
+      try {
+        return [repoKey(repo), await fn(repo)];
+      } catch (error: any) {
+        return [repoKey(repo), { error: error.message }];
+      }
+    }));
+
+    return Object.fromEntries(results);
+  }
+
+  private selectRepos(names?: string[]): GitHubRepoArgs[] {
+    if (!names?.length) {
+      return this.repos;
+    }
+
+    return names.map(name => {
+      const repo = this.repos.find(candidate => candidate.repo === name || repoKey(candidate) === name);
+      if (!repo) {
+        throw new Error(`Repository is not in the workspace: ${name}`);
+      }
+      return repo;
+    });
+  }
+
+  getTools(): ToolDefinition[] {
+    const reposProperty = {
+      repos: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Limit to these workspace repositories (default: all)',
+      },
+    };
+
+    return [
+      {
+        name: 'workspace_list_repos',
+        description: 'List the repositories in the Pulse workspace',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+        handler: async () => this.listRepos(),
+      },
+      {
+        name: 'workspace_open_prs',
+        description: 'List open pull requests across all workspace repositories, grouped by repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...reposProperty,
+          },
+        },
+        handler: (args) => this.openPullRequests(args),
+      },
+      {
+        name: 'workspace_open_issues',
+        description: 'List open issues across all workspace repositories, grouped by repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...reposProperty,
+            labels: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Filter by labels',
+            },
+            assignee: {
+              type: 'string',
+              description: 'Filter by assignee ("none" for unassigned)',
+            },
+          },
+        },
+        handler: (args) => this.openIssues(args),
+      },
+      {
+        name: 'workspace_failing_checks',
+        description: 'Show failing checks on the default branch of every workspace repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...reposProperty,
+          },
+        },
+        handler: (args) => this.failingChecks(args),
+      },
+      {
+        name: 'workspace_stale_branches',
+        description: 'List branches without commits for a number of days across all workspace repositories',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...reposProperty,
+            days: {
+              type: 'number',
+              description: `Days without commits (default: ${DEFAULT_STALE_DAYS})`,
+            },
+          },
+        },
+        handler: (args) => this.staleBranches(args),
+      },
+    ];
+  }
+}
+
+function repoKey(repo: GitHubRepoArgs): string {
+  return `${repo.owner}/${repo.repo}`;
+}
+
+// Search qualifiers matching the listIssues filters, "none" and "*" included
+function issueQuery(repo: GitHubRepoArgs, args: WorkspaceIssuesArgs): string {
+  const qualifiers = [`repo:${repoKey(repo)}`, 'is:issue', 'is:open'];
+  for (const label of args.labels || []) {
+    qualifiers.push(`label:"${label}"`);
+  }
+  if (args.assignee === 'none') {
+    qualifiers.push('no:assignee');
+  } else if (args.assignee === '*') {
+    qualifiers.push('-no:assignee');
+  } else if (args.assignee) {
+    qualifiers.push(`assignee:${args.assignee}`);
+  }
+  return qualifiers.join(' ');
+}
@@ -0,0 +1,72 @@
+import { Integration, ToolContext, ToolDefinition } from './integrations/types.js';
+
+export interface IntegrationRegistryOptions {
+  /** Integration names to skip entirely, e.g. ['supabase'] */
+  disabled?: string[];
+}
+
+export class IntegrationRegistry {
+  private integrations: Integration[] = [];
+  private tools = new Map<string, { integration: Integration; tool: ToolDefinition }>();
+  private disabled: Set<string>;
+
+  constructor(options: IntegrationRegistryOptions = {}) {
+    this.disabled = new Set(options.disabled || []);
+  }
+
+  register(integration: Integration): this {
+    if (this.disabled.has(integration.name)) {
+      console.error(`[${integration.name}] disabled by configuration`);
+      return this;
+    }
+
+    this.integrations.push(integration);
+    return this;
+  }
+
+  async initialize(): Promise<void> {
+    // Initialize integrations independently so one missing credential does not
+    // take the whole server down
+    for (const integration of this.integrations) {
+      try {
+        const ready = await integration.initialize();
+        if (!ready) {
+          console.error(`[${integration.name}] not configured, tools disabled`);
+        }
+      } catch (error) {
+        console.error(`[${integration.name}] failed to initialize:`, error);
+      }
+
+      for (const tool of integration.getTools()) {
+        if (this.tools.has(tool.name)) {
+          throw new Error(`Duplicate tool name: ${tool.name}`);
+        }
+        this.tools.set(tool.name, { integration, tool });
+      }
+    }
+  }
+
+  listTools() {
+    // Only advertise tools whose integration is ready to serve them
+    return Array.from(this.tools.values())
+      .filter(({ integration }) => integration.isAvailable())
+      .map(({ tool }) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+      }));
+  }
+
+  async callTool(name: string, args: any, context: ToolContext = {}): Promise<any> {
+    const entry = this.tools.get(name);
+    if (!entry) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    if (!entry.integration.isAvailable()) {
+      throw new Error(`Tool ${name} is unavailable: ${entry.integration.name} integration is not configured`);
+    }
+
+    return entry.tool.handler(args, context);
+  }
+}
@@ -1,5 +1,5 @@
 import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
-import { promises as fs } from 'fs';
+import { existsSync, promises as fs } from 'fs';
 import * as path from 'path';
 import { execSync } from 'child_process';
 
@@ -8,6 +8,7 @@ interface Secrets {
     url: string;
     anonKey: string;
     serviceRoleKey?: string;
+    jwtSecret?: string;
   };
   github: {
     token: string;
@@ -16,6 +17,10 @@ interface Secrets {
     projectId: string;
     applicationCredentials?: string;
   };
+  n8n: {
+    url: string;
+    apiKey: string;
+  };
 }
 
 export class SecretsManager {
@@ -35,7 +40,7 @@ export class SecretsManager {
         
         // Check for application default credentials
         const adcPath = execSync('gcloud info --format="value(config.paths.application_default_credentials_path)"', { encoding: 'utf8' }).trim();
-        if (adcPath && fs.existsSync(adcPath)) {
+        if (adcPath && existsSync(adcPath)) {
           this.secrets.gcloud.applicationCredentials = adcPath;
         }
         
@@ -67,12 +72,14 @@ export class SecretsManager {
       const supabaseUrl = await this.getSecret(projectId, 'supabase-url');
       const supabaseAnonKey = await this.getSecret(projectId, 'supabase-anon-key');
       const supabaseServiceKey = await this.getSecret(projectId, 'supabase-service-role-key');
+      const supabaseJwtSecret = await this.getSecret(projectId, 'supabase-jwt-secret');
       
       if (supabaseUrl && supabaseAnonKey) {
         this.secrets.supabase = {
           url: supabaseUrl,
           anonKey: supabaseAnonKey,
           serviceRoleKey: supabaseServiceKey,
+          jwtSecret: supabaseJwtSecret,
         };
       }
       
@@ -81,6 +88,13 @@ export class SecretsManager {
       if (githubToken) {
         this.secrets.github = { token: githubToken };
       }
+
+      // Load n8n credentials
+      const n8nUrl = await this.getSecret(projectId, 'n8n-url');
+      const n8nApiKey = await this.getSecret(projectId, 'n8n-api-key');
+      if (n8nUrl && n8nApiKey) {
+        this.secrets.n8n = { url: n8nUrl, apiKey: n8nApiKey };
+      }
     } catch (error) {
       console.error('Failed to load from Secret Manager:', error);
     }
@@ -105,6 +119,7 @@ export class SecretsManager {
         url: process.env.SUPABASE_URL,
         anonKey: process.env.SUPABASE_ANON_KEY || '',
         serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
+        jwtSecret: process.env.SUPABASE_JWT_SECRET,
       };
     }
     
@@ -118,6 +133,13 @@ export class SecretsManager {
         projectId: process.env.GCLOUD_PROJECT,
       };
     }
+
+    if (!this.secrets.n8n?.url && process.env.N8N_URL && process.env.N8N_API_KEY) {
+      this.secrets.n8n = {
+        url: process.env.N8N_URL,
+        apiKey: process.env.N8N_API_KEY,
+      };
+    }
   }
 
   private async getSecret(projectId: string, secretId: string): Promise<string | undefined> {
@@ -142,6 +164,10 @@ export class SecretsManager {
   getGCloudConfig() {
     return this.secrets.gcloud;
   }
+
+  getN8nConfig() {
+    return this.secrets.n8n;
+  }
   
   hasSupabase(): boolean {
     return !!(this.secrets.supabase?.url && this.secrets.supabase?.anonKey);
@@ -154,4 +180,8 @@ export class SecretsManager {
   hasGCloud(): boolean {
     return !!this.secrets.gcloud?.projectId;
   }
+
+  hasN8n(): boolean {
+    return !!(this.secrets.n8n?.url && this.secrets.n8n?.apiKey);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { IntegrationRegistry } from './registry.js';
+import { ToolContext } from './integrations/types.js';
+
+export const SERVER_NAME = 'pulse-mcp-server';
+export const SERVER_VERSION = '0.1.0';
+
+export interface ServerOptions {
+  /** Let tools stream intermediate results as notifications */
+  streamNotifications?: boolean;
+}
+
+/**
+ * Build an MCP server backed by the given registry. Each transport connection
+ * needs its own Server instance, but they can all share one registry.
+ */
+export function createServer(registry: IntegrationRegistry, options: ServerOptions = {}): Server {
+  const server = new Server(
+    { name: SERVER_NAME, version: SERVER_VERSION },
+    { capabilities: options.streamNotifications ? { tools: {}, logging: {} } : { tools: {} } },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: registry.listTools() };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const context: ToolContext = { signal: extra.signal };
+
+    if (options.streamNotifications) {
+      const progressToken = request.params._meta?.progressToken;
+      let progress = 0;
+
+      // Intermediate results go out as log messages on the request's stream,
+      // plus progress updates when the client asked for them
+      context.notify = async (data) => {
+        await extra.sendNotification({
+          method: 'notifications/message',
+          params: { level: 'info', logger: request.params.name, data },
+        });
+        if (progressToken !== undefined) {
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress: ++progress },
+          });
+        }
+      };
+    }
+
+    try {
+      const result = await registry.callTool(
+        request.params.name,
+        request.params.arguments || {},
+        context,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      // Report failures as tool errors so the client sees them instead of a
+      // protocol-level failure
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  return server;
+}
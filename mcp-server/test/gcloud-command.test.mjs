@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildGCloudArgv } from '../dist/integrations/gcloud-command.js';
+
+const readOnly = { readOnly: true };
+const argv = command => command.split(' ');
+
+describe('buildGCloudArgv', () => {
+  it('adds JSON output to allowed read-only commands', () => {
+    assert.deepEqual(
+      buildGCloudArgv(argv('run services list --region=us-central1'), readOnly),
+      ['run', 'services', 'list', '--region=us-central1', '--format=json'],
+    );
+    assert.deepEqual(
+      buildGCloudArgv(argv('secrets versions list --secret=db --format=yaml'), readOnly),
+      ['secrets', 'versions', 'list', '--secret=db', '--format=yaml'],
+    );
+  });
+
+  it('rejects mutating verbs behind group names', () => {
+    for (const command of [
+      'run services delete pulse',
+      'secrets versions destroy 1 --secret=db',
+      'artifacts versions delete v1 --package=p',
+      'beta run services update-traffic pulse --to-latest',
+    ]) {
+      assert.throws(() => buildGCloudArgv(argv(command), readOnly), /read-only mode/, command);
+    }
+  });
+
+  it('rejects reading secret payloads', () => {
+    assert.throws(
+      () => buildGCloudArgv(argv('secrets versions access latest --secret=db'), readOnly),
+      /"secrets versions access" is not allowed/,
+    );
+  });
+
+  it('checks every positional, not just those before a read-only verb', () => {
+    assert.throws(() => buildGCloudArgv(argv('run services list delete'), readOnly), /"delete" commands/);
+  });
+
+  it('rejects flag values written as separate arguments', () => {
+    for (const command of [
+      'run --region list services delete pulse',
+      'secrets --project list versions access latest --secret x',
+      '--project run compute instances delete vm1',
+      'run --quiet services delete pulse',
+      'run services describe pulse --region us-central1',
+    ]) {
+      assert.throws(() => buildGCloudArgv(argv(command), readOnly), /--flag=value/, command);
+    }
+  });
+
+  it('applies the group allowlist outside read-only mode', () => {
+    assert.throws(
+      () => buildGCloudArgv(argv('compute instances delete vm1'), { readOnly: false }),
+      /group "compute" is not allowed/,
+    );
+    assert.deepEqual(
+      buildGCloudArgv(argv('run services delete pulse --quiet'), { readOnly: false }),
+      ['run', 'services', 'delete', 'pulse', '--quiet', '--format=json'],
+    );
+  });
+
+  it('rejects blocked flags', () => {
+    assert.throws(
+      () => buildGCloudArgv(argv('run services list --impersonate-service-account=x@y'), readOnly),
+      /--impersonate-service-account is not allowed/,
+    );
+  });
+});
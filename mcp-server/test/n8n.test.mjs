@@ -0,0 +1,139 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { N8nIntegration } from '../dist/integrations/n8n.js';
+
+const API_KEY = 'test-key';
+
+const workflows = {
+  1: {
+    id: '1',
+    name: 'pulse_background_processing',
+    active: true,
+    tags: [{ name: 'pulse' }],
+    nodes: [
+      { name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: { httpMethod: 'POST', path: 'pulse-run' } },
+      { name: 'Enrich', type: 'n8n-nodes-base.httpRequest', parameters: {} },
+    ],
+  },
+  2: {
+    id: '2',
+    name: 'nightly_cleanup',
+    active: false,
+    tags: [],
+    nodes: [{ name: 'Cron', type: 'n8n-nodes-base.cron', parameters: {} }],
+  },
+};
+
+const failedExecution = {
+  id: '7',
+  workflowId: '1',
+  status: 'error',
+  mode: 'trigger',
+  startedAt: '2025-10-01T00:00:00.000Z',
+  stoppedAt: '2025-10-01T00:00:05.000Z',
+  data: {
+    resultData: {
+      lastNodeExecuted: 'Enrich',
+      error: { message: 'Request failed with status code 502', node: { name: 'Enrich' } },
+      runData: {
+        Webhook: [{ startTime: 1759276800000 }],
+        Enrich: [{ startTime: 1759276801000, error: { message: 'Request failed with status code 502', description: 'Bad gateway' } }],
+      },
+    },
+  },
+};
+
+// Minimal stand-in for the n8n public API and webhook endpoints
+function handle(req, body) {
+  const url = new URL(req.url, 'http://localhost');
+
+  if (url.pathname.startsWith('/api/v1/') && req.headers['x-n8n-api-key'] !== API_KEY) {
+    return [401, { message: 'unauthorized' }];
+  }
+  if (req.method === 'GET' && url.pathname === '/api/v1/workflows') {
+    const data = Object.values(workflows)
+      .filter(workflow => !url.searchParams.has('active') || String(workflow.active) === url.searchParams.get('active'));
+    return [200, { data, nextCursor: null }];
+  }
+  const workflow = /^\/api\/v1\/workflows\/(\w+)$/.exec(url.pathname);
+  if (req.method === 'GET' && workflow) {
+    return workflows[workflow[1]] ? [200, workflows[workflow[1]]] : [404, { message: 'Not Found' }];
+  }
+  if (req.method === 'GET' && url.pathname === '/api/v1/executions/7') {
+    return [200, failedExecution];
+  }
+  if (req.method === 'POST' && url.pathname === '/webhook/pulse-run') {
+    return [200, { received: JSON.parse(body) }];
+  }
+  return [404, { message: `No route for ${req.method} ${url.pathname}` }];
+}
+
+describe('N8nIntegration', () => {
+  let server;
+  let n8n;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const [status, payload] = handle(req, body);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      });
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    process.env.N8N_URL = `http://127.0.0.1:${server.address().port}/`;
+    process.env.N8N_API_KEY = API_KEY;
+
+    // Only the n8n settings of SecretsManager are used by the integration
+    const secrets = {
+      getN8nConfig: () => ({ url: process.env.N8N_URL, apiKey: process.env.N8N_API_KEY }),
+    };
+    n8n = new N8nIntegration(secrets);
+    assert.equal(await n8n.initialize(), true);
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('lists workflows with tags and node counts', async () => {
+    const result = await n8n.listWorkflows({ active: true });
+
+    assert.deepEqual(result.workflows.map(workflow => [workflow.id, workflow.tags, workflow.nodeCount]), [
+      ['1', ['pulse'], 2],
+    ]);
+    assert.equal(result.nextCursor, null);
+  });
+
+  it('extracts failed nodes from an execution', async () => {
+    const execution = await n8n.getExecution({ id: '7' });
+
+    assert.equal(execution.status, 'error');
+    assert.deepEqual(execution.error, { message: 'Request failed with status code 502', node: 'Enrich' });
+    assert.deepEqual(execution.failedNodes, [{
+      node: 'Enrich',
+      message: 'Request failed with status code 502',
+      description: 'Bad gateway',
+      startedAt: '2025-10-01T00:00:01.000Z',
+    }]);
+    assert.deepEqual(execution.nodesExecuted, ['Webhook', 'Enrich']);
+  });
+
+  it('triggers a workflow through its webhook', async () => {
+    const result = await n8n.triggerWorkflow({ id: '1', payload: { city: 'Austin' } });
+
+    assert.deepEqual(result, { workflowId: '1', status: 200, response: { received: { city: 'Austin' } } });
+  });
+
+  it('rejects triggering a workflow without a webhook', async () => {
+    await assert.rejects(n8n.triggerWorkflow({ id: '2' }), /has no webhook trigger/);
+  });
+
+  it('reports API errors with the n8n message', async () => {
+    await assert.rejects(n8n.getWorkflow({ id: '404' }), /n8n API error: 404 Not Found/);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyFilter } from '../dist/integrations/supabase-filter.js';
+import { decodeCursor, encodeCursor, keysetFilter, RowSerializer } from '../dist/integrations/supabase-export.js';
+
+// The builder calls applyFilter makes for the rows after a cursor
+function after(cursor) {
+  const calls = [];
+  const builder = new Proxy({}, {
+    get: (target, method) => (...args) => {
+      calls.push([method, ...args]);
+      return builder;
+    },
+  });
+  applyFilter(builder, keysetFilter(cursor));
+  return calls;
+}
+
+const cursor = (value, ascending, key = { column: 'id', value: 5 }) => ({ column: 'score', value, ascending, key });
+
+describe('keysetFilter', () => {
+  it('breaks ties on the sort column with the key', () => {
+    assert.deepEqual(after(cursor(10, true)), [
+      ['or', 'score.gt.10,and(score.eq.10,id.gt.5),score.is.null'],
+    ]);
+    assert.deepEqual(after(cursor(10, false)), [
+      ['or', 'score.lt.10,and(score.eq.10,id.gt.5)'],
+    ]);
+  });
+
+  it('pages past null sort values', () => {
+    // Ascending: nulls sort last, so only more nulls follow
+    assert.deepEqual(after(cursor(null, true)), [
+      ['is', 'score', null],
+      ['gt', 'id', 5],
+    ]);
+    // Descending: nulls sort first, so every non-null value follows
+    assert.deepEqual(after(cursor(null, false)), [
+      ['or', 'and(score.is.null,id.gt.5),score.not.is.null'],
+    ]);
+  });
+
+  it('needs no tie-breaker for a unique sort column', () => {
+    const key = { column: 'score', value: 10 };
+    assert.deepEqual(after(cursor(10, true, key)), [['or', 'score.gt.10,score.is.null']]);
+    assert.deepEqual(after(cursor(10, false, key)), [['lt', 'score', 10]]);
+  });
+});
+
+describe('cursors', () => {
+  it('round-trip and reject malformed input', () => {
+    const value = cursor('2025-10-01T00:00:00+00:00', false);
+    assert.deepEqual(decodeCursor(encodeCursor(value)), value);
+    assert.throws(() => decodeCursor('not-a-cursor'), /Invalid cursor/);
+    assert.throws(() => decodeCursor(Buffer.from('{"column":"a"}').toString('base64url')), /Invalid cursor/);
+  });
+});
+
+describe('RowSerializer', () => {
+  it('writes the CSV header once and escapes cells', () => {
+    const serializer = new RowSerializer('csv');
+    assert.equal(serializer.serialize([{ id: 1, note: 'a, "b"' }]), 'id,note\n1,"a, ""b"""\n');
+    assert.equal(serializer.serialize([{ id: 2, note: null }]), '2,\n');
+  });
+});
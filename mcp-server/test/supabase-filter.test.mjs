@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyFilter, isEmptyFilter } from '../dist/integrations/supabase-filter.js';
+
+// Records the postgrest-js builder calls a filter turns into
+function recorder() {
+  const calls = [];
+  const builder = new Proxy({}, {
+    get: (target, method) => (...args) => {
+      calls.push([method, ...args]);
+      return builder;
+    },
+  });
+  return { builder, calls };
+}
+
+function calls(filter) {
+  const { builder, calls } = recorder();
+  applyFilter(builder, filter);
+  return calls;
+}
+
+describe('applyFilter', () => {
+  it('uses builder methods for top-level conditions', () => {
+    assert.deepEqual(calls({
+      status: 'active',
+      deleted_at: null,
+      score: { operator: 'between', value: [1, 5] },
+      and: [{ priority: { operator: 'gt', value: 3 } }],
+    }), [
+      ['eq', 'status', 'active'],
+      ['is', 'deleted_at', null],
+      ['gte', 'score', 1],
+      ['lte', 'score', 5],
+      ['gt', 'priority', 3],
+    ]);
+  });
+
+  it('serializes or groups as logic trees', () => {
+    assert.deepEqual(calls({
+      or: [{ status: 'new' }, { status: 'open', priority: { operator: 'in', value: [1, 2] } }],
+    }), [
+      ['or', 'status.eq.new,and(status.eq.open,priority.in.(1,2))'],
+    ]);
+  });
+
+  it('quotes values with reserved characters', () => {
+    assert.deepEqual(calls({ or: [{ title: 'a, b' }, { 'metadata->>source': 'x.y' }] }), [
+      ['or', 'title.eq."a, b",metadata->>source.eq."x.y"'],
+    ]);
+  });
+
+  it('negates a single condition after its column', () => {
+    assert.deepEqual(calls({ not: { status: 'x' } }), [['or', 'status.not.eq.x']]);
+    assert.deepEqual(calls({ not: { tags: { operator: 'contains', value: ['spam'] } } }), [
+      ['or', 'tags.not.cs.{spam}'],
+    ]);
+    assert.deepEqual(calls({ not: { score: null } }), [['or', 'score.not.is.null']]);
+  });
+
+  it('negates groups with a leading not', () => {
+    assert.deepEqual(calls({ not: { status: 'x', priority: 1 } }), [
+      ['or', 'not.and(status.eq.x,priority.eq.1)'],
+    ]);
+    assert.deepEqual(calls({ not: { or: [{ status: 'x' }, { status: 'y' }] } }), [
+      ['or', 'not.or(status.eq.x,status.eq.y)'],
+    ]);
+    assert.deepEqual(calls({ not: { score: { operator: 'between', value: [1, 5] } } }), [
+      ['or', 'not.and(score.gte.1,score.lte.5)'],
+    ]);
+    assert.deepEqual(calls({ not: { not: { status: 'x' } } }), [
+      ['or', 'not.and(status.not.eq.x)'],
+    ]);
+  });
+
+  it('negates conditions inside nested groups', () => {
+    assert.deepEqual(calls({ or: [{ not: { status: 'x' } }, { priority: 1 }] }), [
+      ['or', 'status.not.eq.x,priority.eq.1'],
+    ]);
+    assert.deepEqual(calls({ or: [{ and: [{ not: { a: 1 } }, { b: 2 }] }, { c: 3 }] }), [
+      ['or', 'and(a.not.eq.1,b.eq.2),c.eq.3'],
+    ]);
+  });
+
+  it('rejects unknown operators and empty groups', () => {
+    assert.throws(() => calls({ a: { operator: 'nope', value: 1 } }), /Unknown filter operator/);
+    assert.throws(() => calls({ or: [] }), /non-empty array/);
+    assert.throws(() => calls({ and: [{}] }), /at least one condition/);
+    assert.throws(() => calls({ not: {} }), /at least one condition/);
+  });
+});
+
+describe('isEmptyFilter', () => {
+  it('looks through and groups', () => {
+    assert.equal(isEmptyFilter(undefined), true);
+    assert.equal(isEmptyFilter({ a: undefined }), true);
+    assert.equal(isEmptyFilter({ and: [{}, { and: [{}] }] }), true);
+    assert.equal(isEmptyFilter({ and: [{}, { a: 1 }] }), false);
+    assert.equal(isEmptyFilter({ a: null }), false);
+  });
+});